@@ -118,45 +118,45 @@ export function activityLogger() {
 export function multiChannelMonitor() {
   console.log("=== Ejemplo 3: Monitor de Múltiples Canales ===");
 
-  const channels = ["streamer1", "streamer2", "streamer3"];
-  const connections: Map<string, KickWebSocket> = new Map();
-
-  channels.forEach((channelName) => {
-    const kickWS = new KickWebSocket({
-      debug: false,
-      autoReconnect: true,
-      filteredEvents: ["ChatMessage", "UserBanned", "Subscription"],
-    });
-
-    connections.set(channelName, kickWS);
+  const [primary, ...others] = ["streamer1", "streamer2", "streamer3"];
 
-    kickWS.connect(channelName);
+  // Un único socket para todos los canales
+  const kickWS = new KickWebSocket({
+    debug: false,
+    autoReconnect: true,
+    filteredEvents: ["ChatMessage", "UserBanned", "Subscription"],
+  });
 
-    kickWS.onChatMessage((message: ChatMessageEvent) => {
-      console.log(
-        `[${channelName}] 💬 ${message.sender.username}: ${message.content}`,
-      );
-    });
+  kickWS.onChatMessage((message: ChatMessageEvent, context) => {
+    console.log(
+      `[${context?.channel}] 💬 ${message.sender.username}: ${message.content}`,
+    );
+  });
 
-    kickWS.onUserBanned((ban: UserBannedEvent) => {
-      console.log(`[${channelName}] 🔨 Ban: ${ban.username}`);
-    });
+  kickWS.onUserBanned((ban: UserBannedEvent, context) => {
+    console.log(`[${context?.channel}] 🔨 Ban: ${ban.username}`);
+  });
 
-    kickWS.onSubscription((sub: SubscriptionEvent) => {
-      console.log(`[${channelName}] ⭐ Sub: ${sub.username}`);
-    });
+  kickWS.onSubscription((sub: SubscriptionEvent, context) => {
+    console.log(`[${context?.channel}] ⭐ Sub: ${sub.username}`);
+  });
 
-    kickWS.on("ready", () => {
-      console.log(`✅ Conectado a ${channelName}`);
-    });
+  // ready se emite una vez por canal suscrito
+  kickWS.on("ready", (_data, context) => {
+    console.log(`✅ Conectado a ${context?.channel}`);
   });
 
+  kickWS
+    .connect(primary)
+    .then(() => Promise.all(others.map((name) => kickWS.addChannel(name))))
+    .catch(console.error);
+
   // Función para desconectar todos los canales
   function disconnectAll() {
-    connections.forEach((ws, channel) => {
-      ws.disconnect();
+    kickWS.getChannels().forEach(({ channel }) => {
       console.log(`❌ Desconectado de ${channel}`);
     });
+    kickWS.disconnect();
   }
 
   return { disconnectAll };
@@ -10,6 +10,21 @@ let indexContent = fs.readFileSync(indexPath, "utf8");
 // Remover sourceMappingURL del final del archivo
 indexContent = indexContent.replace(/\/\/# sourceMappingURL=.*\.map$/, "");
 
+// Recoger los nombres re-exportados por el index.js: el bundle los
+// exporta directamente desde las implementaciones concatenadas
+const reExportedNames = [];
+indexContent.replace(
+  /^export\s*\{([^}]*)\}\s*from\s*["'][^"']*["'];?$/gm,
+  (_match, names) => {
+    names
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean)
+      .forEach((name) => reExportedNames.push(name));
+    return "";
+  },
+);
+
 // Remover re-exports individuales del index.js para evitar duplicados
 indexContent = indexContent.replace(
   /^export\s*\{[^}]*\}\s*from\s*["'][^"']*["'];?$/gm,
@@ -26,13 +41,34 @@ indexContent = indexContent.replace(
   "",
 );
 
+// Recorrer los imports relativos desde index.js: así un módulo nuevo entra en
+// el bundle sin tener que añadirlo a mano, y cada uno va después de los que
+// importa
+function collectModules(entry) {
+  const ordered = [];
+  const visiting = new Set();
+
+  const visit = (file) => {
+    if (ordered.includes(file) || visiting.has(file)) return;
+    visiting.add(file);
+
+    const content = fs.readFileSync(path.join(__dirname, "..", file), "utf8");
+    const specifiers = content.matchAll(
+      /^(?:import|export)\s[^;]*?from\s*["'](\.\/[^"']+)["'];?$/gm,
+    );
+    for (const [, specifier] of specifiers) {
+      visit(path.posix.join(path.posix.dirname(file), specifier));
+    }
+
+    ordered.push(file);
+  };
+
+  visit(entry);
+  return ordered.filter((file) => file !== entry);
+}
+
 // Leer los archivos de implementación pero sin sus exportaciones individuales
-const implementationFiles = [
-  "dist/EventEmitter.js",
-  "dist/MessageParser.js",
-  "dist/WebSocketManager.js",
-  "dist/types.js",
-];
+const implementationFiles = collectModules("dist/index.js");
 
 let implementationContent = "";
 
@@ -45,6 +81,8 @@ implementationFiles.forEach((file) => {
 
   // Remover export statements individuales para evitar duplicados
   content = content.replace(/^export\s+class\s+(\w+)/gm, "class $1");
+  content = content.replace(/^export\s+function\s+(\w+)/gm, "function $1");
+  content = content.replace(/^export\s+const\s+(\w+)/gm, "const $1");
   content = content.replace(
     /^export\s*\{[^}]*\}\s*from\s*["'][^"']*["'];?$/gm,
     "",
@@ -62,7 +100,10 @@ implementationFiles.forEach((file) => {
 });
 
 // Combinar: primero las implementaciones, luego el index con sus exportaciones
-const combinedContent = implementationContent + indexContent;
+const combinedContent =
+  implementationContent +
+  indexContent +
+  `\nexport { ${reExportedNames.join(", ")} };\n`;
 
 // Escribir archivo combinado
 fs.writeFileSync(path.join(__dirname, "..", outputFile), combinedContent);
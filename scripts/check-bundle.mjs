@@ -0,0 +1,24 @@
+// Comprueba que el bundle se carga y expone lo mismo que dist/index.js
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+
+const root = path.join(path.dirname(fileURLToPath(import.meta.url)), "..");
+const load = (file) => import(pathToFileURL(path.join(root, file)).href);
+
+const bundle = await load("dist/kick-wss.js");
+const index = await load("dist/index.js");
+
+const missing = Object.keys(index).filter((name) => !(name in bundle));
+if (missing.length > 0) {
+  throw new Error(`Bundle is missing exports: ${missing.join(", ")}`);
+}
+
+// Construir el cliente ejercita el resolver de canales por defecto
+const kickWS = new bundle.KickWebSocket();
+kickWS.disconnect();
+
+if (bundle.default !== bundle.KickWebSocket) {
+  throw new Error("Bundle default export is not KickWebSocket");
+}
+
+console.log("✅ Bundle verificado:", Object.keys(bundle).length, "exports");
@@ -0,0 +1,109 @@
+// Normalización y validación de identificadores de canal de Kick.com
+import { InvalidChannelError } from "./errors.js";
+import type { ParsedChannelIdentifier } from "./types.js";
+
+export class ChannelIdentifier {
+  // Caracteres permitidos en el slug de un canal
+  private static readonly SLUG_PATTERN = /^[a-z0-9_-]{1,64}$/;
+
+  // Hosts de Kick.com aceptados en URLs
+  private static readonly KICK_HOSTS = ["kick.com", "www.kick.com"];
+
+  /**
+   * Interpreta un slug, una URL de canal, un enlace popout o un id numérico.
+   * Lanza InvalidChannelError si el identificador no es válido.
+   */
+  static parse(input: string): ParsedChannelIdentifier {
+    const raw = typeof input === "string" ? input : String(input ?? "");
+    let value = raw.trim();
+
+    if (value === "") {
+      throw new InvalidChannelError(raw, "identifier is empty");
+    }
+
+    if (this.looksLikeUrl(value)) {
+      value = this.extractSlugFromUrl(raw, value);
+    }
+
+    value = value.replace(/^@/, "").toLowerCase();
+
+    if (/^\d+$/.test(value)) {
+      return { kind: "id", id: Number(value) };
+    }
+
+    if (!this.SLUG_PATTERN.test(value)) {
+      throw new InvalidChannelError(
+        raw,
+        "only letters, numbers, '-' and '_' are allowed",
+      );
+    }
+
+    return { kind: "slug", slug: value };
+  }
+
+  /**
+   * Devuelve el slug normalizado. Los ids numéricos se rechazan porque no
+   * identifican un chatroom; para ello se usa connect({ chatroomId }).
+   */
+  static normalize(input: string): string {
+    const parsed = this.parse(input);
+    if (parsed.kind === "id") {
+      throw new InvalidChannelError(
+        input,
+        "numeric ids are not channel slugs, use connect({ chatroomId }) instead",
+      );
+    }
+    return parsed.slug;
+  }
+
+  /**
+   * Verifica si un identificador puede normalizarse a un slug
+   */
+  static isValid(input: string): boolean {
+    try {
+      this.normalize(input);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Detecta si el valor es una URL de Kick.com (con o sin protocolo)
+   */
+  private static looksLikeUrl(value: string): boolean {
+    return /^https?:\/\//i.test(value) || /^(www\.)?kick\.com\//i.test(value);
+  }
+
+  /**
+   * Extrae el slug de una URL de canal o de un enlace popout
+   */
+  private static extractSlugFromUrl(raw: string, value: string): string {
+    let url: URL;
+    try {
+      url = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+    } catch {
+      throw new InvalidChannelError(raw, "malformed URL");
+    }
+
+    if (!this.KICK_HOSTS.includes(url.hostname.toLowerCase())) {
+      throw new InvalidChannelError(raw, `not a kick.com URL`);
+    }
+
+    const segments = url.pathname.split("/").filter(Boolean);
+
+    // kick.com/popout/{slug}/chat
+    const slug =
+      segments[0]?.toLowerCase() === "popout" ? segments[1] : segments[0];
+
+    if (!slug) {
+      throw new InvalidChannelError(raw, "URL has no channel");
+    }
+
+    try {
+      return decodeURIComponent(slug);
+    } catch {
+      throw new InvalidChannelError(raw, "malformed URL");
+    }
+  }
+}
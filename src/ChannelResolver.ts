@@ -0,0 +1,210 @@
+// Resolución de canales de Kick.com (slug -> chatroom)
+import type {
+  ChannelResolver,
+  ChannelCacheStorage,
+  ResolvedChannel,
+  FetchLike,
+  KickChannel,
+} from "./types.js";
+
+/**
+ * Resuelve canales consultando la API pública de Kick.com
+ */
+export class KickApiChannelResolver implements ChannelResolver {
+  private readonly fetchImpl: FetchLike;
+  private readonly endpoint: (slug: string) => string;
+
+  constructor(
+    options: {
+      fetch?: FetchLike;
+      endpoint?: (slug: string) => string;
+    } = {},
+  ) {
+    this.fetchImpl = options.fetch || ((url, init) => fetch(url, init));
+    this.endpoint =
+      options.endpoint ||
+      ((slug) =>
+        `https://kick.com/api/v2/channels/${encodeURIComponent(slug)}`);
+  }
+
+  /**
+   * Obtiene la información del canal desde el endpoint configurado
+   */
+  async resolve(
+    slug: string,
+    options: { signal?: AbortSignal } = {},
+  ): Promise<ResolvedChannel> {
+    const response = await this.fetchImpl(this.endpoint(slug), {
+      signal: options.signal,
+      headers: { Accept: "application/json" },
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as Partial<KickChannel>;
+    if (!data?.chatroom?.id) {
+      throw new Error(`Channel response for ${slug} has no chatroom`);
+    }
+
+    return {
+      slug: data.slug || slug,
+      chatroomId: data.chatroom.id,
+      channelId: data.id,
+    };
+  }
+}
+
+/**
+ * Prueba varios resolvers en orden hasta que uno tenga éxito
+ */
+export class FallbackChannelResolver implements ChannelResolver {
+  private readonly resolvers: ChannelResolver[];
+
+  constructor(resolvers: ChannelResolver[]) {
+    this.resolvers = resolvers;
+  }
+
+  async resolve(
+    slug: string,
+    options: { signal?: AbortSignal } = {},
+  ): Promise<ResolvedChannel> {
+    const errors: string[] = [];
+
+    for (const resolver of this.resolvers) {
+      try {
+        return await resolver.resolve(slug, options);
+      } catch (error) {
+        // Una cancelación no debe intentar el siguiente resolver
+        if (options.signal?.aborted) {
+          throw error;
+        }
+        errors.push(String(error));
+      }
+    }
+
+    throw new Error(
+      `All channel resolvers failed for ${slug}: ${errors.join("; ")}`,
+    );
+  }
+}
+
+/**
+ * Cachea en memoria las resoluciones de otro resolver durante un TTL y,
+ * opcionalmente, las persiste en un almacenamiento compatible con localStorage
+ */
+export class CachingChannelResolver implements ChannelResolver {
+  private cache: Map<string, { channel: ResolvedChannel; expiresAt: number }> =
+    new Map();
+  private readonly inner: ChannelResolver;
+  private readonly ttl: number;
+  private readonly storage?: ChannelCacheStorage;
+  private readonly storagePrefix: string;
+
+  constructor(
+    inner: ChannelResolver,
+    options: {
+      ttl?: number;
+      storage?: ChannelCacheStorage;
+      storagePrefix?: string;
+    } = {},
+  ) {
+    this.inner = inner;
+    this.ttl = options.ttl ?? 60 * 60 * 1000;
+    this.storage = options.storage;
+    this.storagePrefix = options.storagePrefix ?? "kick-wss:channel:";
+  }
+
+  async resolve(
+    slug: string,
+    options: { signal?: AbortSignal } = {},
+  ): Promise<ResolvedChannel> {
+    const key = slug.toLowerCase();
+    const cached = this.cache.get(key) || this.readStorage(key);
+
+    if (cached && cached.expiresAt > Date.now()) {
+      return { ...cached.channel };
+    }
+
+    const channel = await this.inner.resolve(slug, options);
+    this.set(key, channel);
+    return { ...channel };
+  }
+
+  /**
+   * Registra manualmente una resolución en la caché
+   */
+  set(slug: string, channel: ResolvedChannel): void {
+    const key = slug.toLowerCase();
+    const entry = { channel, expiresAt: Date.now() + this.ttl };
+    this.cache.set(key, entry);
+
+    try {
+      this.storage?.setItem(this.storagePrefix + key, JSON.stringify(entry));
+    } catch {
+      // El almacenamiento puede estar lleno o no disponible
+    }
+  }
+
+  /**
+   * Elimina un canal de la caché
+   */
+  invalidate(slug: string): void {
+    const key = slug.toLowerCase();
+    this.cache.delete(key);
+
+    try {
+      this.storage?.removeItem?.(this.storagePrefix + key);
+    } catch {
+      // El almacenamiento puede no estar disponible
+    }
+  }
+
+  /**
+   * Vacía la caché en memoria
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Lee una resolución persistida y la carga en memoria
+   */
+  private readStorage(
+    key: string,
+  ): { channel: ResolvedChannel; expiresAt: number } | undefined {
+    if (!this.storage) return undefined;
+
+    try {
+      const raw = this.storage.getItem(this.storagePrefix + key);
+      if (!raw) return undefined;
+
+      const entry = JSON.parse(raw);
+      if (typeof entry?.channel?.chatroomId !== "number") return undefined;
+
+      this.cache.set(key, entry);
+      return entry;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Crea el resolver por defecto: API v2 con fallback a v1 y caché en memoria
+ */
+export function createDefaultChannelResolver(
+  fetchImpl?: FetchLike,
+): CachingChannelResolver {
+  return new CachingChannelResolver(
+    new FallbackChannelResolver([
+      new KickApiChannelResolver({ fetch: fetchImpl }),
+      new KickApiChannelResolver({
+        fetch: fetchImpl,
+        endpoint: (slug) =>
+          `https://kick.com/api/v1/channels/${encodeURIComponent(slug)}`,
+      }),
+    ]),
+  );
+}
@@ -1,44 +1,146 @@
 // EventEmitter ligero sin dependencias externas
+import { AbortError, WaitForTimeoutError } from "./errors.js";
+import type {
+  ListenerErrorEvent,
+  ListenerErrorStrategy,
+  ListenerOptions,
+  MaxListenersExceededWarning,
+  PropagationControl,
+  WaitForOptions,
+} from "./types.js";
+
+// Envoltorio de once() que conserva el listener original
+type OnceWrapper = ((...args: any[]) => unknown) & { listener?: Function };
+
+// Listener registrado con su prioridad
+interface ListenerEntry {
+  listener: Function;
+  priority: number;
+  // Orden de registro entre listeners de igual prioridad (negativo con
+  // prepend, para quedar delante)
+  order: number;
+  // Recibe el control de propagación tras los argumentos del evento
+  control: boolean;
+}
+
+// Listeners de un evento ordenados por prioridad descendente
+interface ListenerList {
+  entries: ListenerEntry[];
+  registered: Set<Function>;
+}
+
+// Listener a ejecutar en una emisión
+interface Delivery {
+  listener: Function;
+  pattern: boolean;
+  control: boolean;
+}
+
 export class EventEmitter {
-  private events: Map<string, Set<Function>> = new Map();
+  private eventListeners: Map<string, ListenerList> = new Map();
+  // Listeners por patrón ("*", "Poll*", "chat:*"); reciben (type, ...args)
+  private patternListeners: Map<string, ListenerList> = new Map();
+  private patternRegExps: Map<string, RegExp> = new Map();
   private maxListeners: number = 10;
+  // Eventos para los que ya se avisó de un posible leak
+  private warnedEvents: Set<string> = new Set();
+  private listenerErrorStrategy: ListenerErrorStrategy = "emit";
+  private listenerFailures: number = 0;
+  private registrations: number = 0;
 
   /**
-   * Registra un listener para un evento
+   * Registra un listener para un evento. Los nombres con `*` son patrones:
+   * el listener recibe el tipo de evento seguido de los argumentos.
+   * Los listeners de mayor `priority` se ejecutan antes; con la misma
+   * prioridad se respeta el orden de registro.
    */
-  on(event: string, listener: Function): void {
-    if (!this.events.has(event)) {
-      this.events.set(event, new Set());
-    }
-
-    const listeners = this.events.get(event)!;
-
-    listeners.add(listener);
+  on(event: string, listener: Function, options: ListenerOptions = {}): void {
+    this.addListener(event, listener, options, false);
   }
 
   /**
    * Registra un listener que se ejecuta solo una vez
    */
-  once(event: string, listener: Function): void {
-    const onceWrapper = (...args: any[]) => {
-      this.off(event, onceWrapper);
-      listener(...args);
-    };
-
-    this.on(event, onceWrapper);
+  once(event: string, listener: Function, options: ListenerOptions = {}): void {
+    this.on(event, this.createOnceWrapper(event, listener), options);
   }
 
   /**
-   * Elimina un listener de un evento
+   * Elimina un listener de un evento. Acepta también el listener original
+   * registrado con once().
    */
   off(event: string, listener: Function): void {
-    const listeners = this.events.get(event);
-    if (listeners) {
-      listeners.delete(listener);
-      if (listeners.size === 0) {
-        this.events.delete(event);
-      }
+    const list = this.getListenerList(event, false);
+    if (!list) return;
+
+    const { entries } = list;
+    if (!list.registered.has(listener)) {
+      const wrapper = entries.find(
+        (entry) => (entry.listener as OnceWrapper).listener === listener,
+      );
+      if (!wrapper) return;
+      listener = wrapper.listener;
     }
+
+    const index = entries.findIndex((entry) => entry.listener === listener);
+    entries.splice(index, 1);
+    list.registered.delete(listener);
+
+    if (list.registered.size === 0) {
+      this.deleteListenerList(event);
+    }
+  }
+
+  /**
+   * Espera la próxima emisión de un evento que cumpla `filter` y resuelve
+   * con su primer argumento. Rechaza con WaitForTimeoutError al agotarse
+   * `timeout` o con AbortError al abortarse `signal`.
+   */
+  waitFor(event: string, options: WaitForOptions<any> = {}): Promise<any> {
+    const { filter, timeout, signal } = options;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new AbortError(`Aborted while waiting for "${event}"`));
+        return;
+      }
+
+      let timer: number | null = null;
+
+      const cleanup = () => {
+        this.off(event, listener);
+        signal?.removeEventListener("abort", onAbort);
+        if (timer) clearTimeout(timer);
+      };
+
+      const listener = (data: unknown, ...rest: any[]) => {
+        try {
+          if (filter && !filter(data, rest[0])) return;
+        } catch (error) {
+          cleanup();
+          reject(error);
+          return;
+        }
+
+        cleanup();
+        resolve(data);
+      };
+
+      const onAbort = () => {
+        cleanup();
+        reject(new AbortError(`Aborted while waiting for "${event}"`));
+      };
+
+      this.on(event, listener);
+      signal?.addEventListener("abort", onAbort);
+
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          cleanup();
+          reject(new WaitForTimeoutError(event, timeout));
+        }, timeout) as unknown as number;
+      }
+    });
   }
 
   /**
@@ -46,52 +148,409 @@ export class EventEmitter {
    */
   removeAllListeners(event?: string): void {
     if (event) {
-      this.events.delete(event);
+      this.deleteListenerList(event);
+      this.warnedEvents.delete(event);
     } else {
-      this.events.clear();
+      this.eventListeners.clear();
+      this.patternListeners.clear();
+      this.patternRegExps.clear();
+      this.warnedEvents.clear();
     }
   }
 
   /**
-   * Emite un evento con los datos proporcionados
+   * Emite un evento con los datos proporcionados. Los listeners registrados
+   * con `control: true` reciben además el control de propagación tras ellos.
    */
   emit(event: string, ...args: any[]): boolean {
-    const listeners = this.events.get(event);
-    if (!listeners || listeners.size === 0) {
+    return this.deliver(event, args, args.length);
+  }
+
+  /**
+   * Entrega un evento a sus listeners en orden de prioridad. Los que piden
+   * el control de propagación lo reciben en la posición `controlIndex`,
+   * completando con undefined los argumentos que falten.
+   */
+  protected deliver(event: string, args: any[], controlIndex: number): boolean {
+    const deliveries = this.getDeliveryOrder(event);
+    if (deliveries.length === 0) {
       return false;
     }
 
-    // Crear una copia para evitar problemas si se modifican los listeners durante la ejecución
-    const listenersArray = Array.from(listeners);
+    let stopped = false;
+    const control: PropagationControl = {
+      stopPropagation: () => {
+        stopped = true;
+      },
+      get stopped() {
+        return stopped;
+      },
+    };
 
-    for (const listener of listenersArray) {
-      try {
-        listener(...args);
-      } catch (error) {
-        console.error(`Error in event listener for "${event}":`, error);
-      }
+    const controlArgs = Array.from({ length: controlIndex }, (_, i) => args[i]);
+    controlArgs.push(control);
+
+    for (const delivery of deliveries) {
+      const listenerArgs = delivery.control ? controlArgs : args;
+      this.invokeListener(
+        event,
+        delivery.listener,
+        delivery.pattern ? [event, ...listenerArgs] : listenerArgs,
+      );
+      if (stopped) break;
     }
 
     return true;
   }
 
+  /**
+   * Registra un listener en su posición según prioridad: la búsqueda es
+   * binaria y la inserción desplaza los de menor prioridad
+   */
+  private addListener(
+    event: string,
+    listener: Function,
+    options: ListenerOptions,
+    prepend: boolean,
+  ): void {
+    const list = this.getListenerList(event, true)!;
+    if (list.registered.has(listener)) return;
+
+    const order = ++this.registrations;
+    const entry: ListenerEntry = {
+      listener,
+      priority: options.priority ?? 0,
+      order: prepend ? -order : order,
+      control: options.control ?? false,
+    };
+
+    // Primera posición cuyo listener debe ejecutarse después del nuevo
+    const { entries } = list;
+    let low = 0;
+    let high = entries.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      const diff =
+        entries[mid].priority - entry.priority ||
+        entry.order - entries[mid].order;
+      if (diff >= 0) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    entries.splice(low, 0, entry);
+
+    list.registered.add(listener);
+    this.checkMaxListeners(event, list.registered.size);
+  }
+
+  /**
+   * Mezcla dos listas ordenadas por prioridad; con igual prioridad van
+   * primero los de `a`
+   */
+  private mergeEntries(
+    a: ListenerEntry[],
+    b: ListenerEntry[],
+  ): ListenerEntry[] {
+    const merged: ListenerEntry[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < a.length && j < b.length) {
+      merged.push(b[j].priority > a[i].priority ? b[j++] : a[i++]);
+    }
+    while (i < a.length) merged.push(a[i++]);
+    while (j < b.length) merged.push(b[j++]);
+
+    return merged;
+  }
+
+  /**
+   * Obtiene una copia de los listeners a ejecutar para un evento, incluidos
+   * los de patrones, ordenados por prioridad
+   */
+  private getDeliveryOrder(event: string): Delivery[] {
+    const entries = this.eventListeners.get(event)?.entries ?? [];
+    const patternEntries = this.getPatternListeners(event);
+
+    // Ambas listas ya están ordenadas: basta con mezclarlas; con igual
+    // prioridad los exactos van primero
+    const deliveries: Delivery[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < entries.length || j < patternEntries.length) {
+      const pattern = !(
+        j === patternEntries.length ||
+        (i < entries.length &&
+          entries[i].priority >= patternEntries[j].priority)
+      );
+      const { listener, control } = pattern
+        ? patternEntries[j++]
+        : entries[i++];
+      deliveries.push({ listener, pattern, control });
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Ejecuta un listener aislando sus errores, incluidas las promesas
+   * rechazadas de listeners asíncronos
+   */
+  private invokeListener(event: string, listener: Function, args: any[]): void {
+    let result: unknown;
+    try {
+      result = listener(...args);
+    } catch (error) {
+      this.handleListenerError(event, listener, error);
+      if (this.listenerErrorStrategy === "rethrow") {
+        throw error;
+      }
+      return;
+    }
+
+    if (result && typeof (result as PromiseLike<unknown>).then === "function") {
+      (result as PromiseLike<unknown>).then(undefined, (error: unknown) =>
+        this.handleListenerError(event, listener, error),
+      );
+    }
+  }
+
+  /**
+   * Registra el fallo de un listener y lo notifica mediante `listenerError`.
+   * Sin listeners para ese evento se recurre a console.error.
+   */
+  private handleListenerError(
+    event: string,
+    listener: Function,
+    error: unknown,
+  ): void {
+    this.listenerFailures++;
+
+    const payload: ListenerErrorEvent = { event, listener, error };
+    if (event === "listenerError" || !this.emit("listenerError", payload)) {
+      console.error(`Error in event listener for "${event}":`, error);
+    }
+  }
+
+  /**
+   * Namespaces de un evento para los patrones con prefijo (p. ej. "chat:*").
+   * Las subclases lo sobrescriben para agrupar sus eventos.
+   */
+  protected getEventNamespaces(_event: string): string[] {
+    return [];
+  }
+
+  /**
+   * Indica si un nombre de evento es un patrón
+   */
+  private isPattern(event: string): boolean {
+    return event.includes("*");
+  }
+
+  /**
+   * Obtiene la lista de listeners de un evento o patrón
+   */
+  private getListenerList(
+    event: string,
+    create: boolean,
+  ): ListenerList | undefined {
+    const map = this.isPattern(event)
+      ? this.patternListeners
+      : this.eventListeners;
+
+    if (!map.has(event) && create) {
+      map.set(event, { entries: [], registered: new Set() });
+      if (this.isPattern(event)) {
+        this.patternRegExps.set(event, this.compilePattern(event));
+      }
+    }
+
+    return map.get(event);
+  }
+
+  /**
+   * Elimina la lista de listeners de un evento o patrón
+   */
+  private deleteListenerList(event: string): void {
+    if (this.isPattern(event)) {
+      this.patternListeners.delete(event);
+      this.patternRegExps.delete(event);
+    } else {
+      this.eventListeners.delete(event);
+    }
+  }
+
+  /**
+   * Convierte un patrón glob en una expresión regular
+   */
+  private compilePattern(pattern: string): RegExp {
+    const source = pattern
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*");
+    return new RegExp(`^${source}$`);
+  }
+
+  /**
+   * Obtiene los listeners por patrón que coinciden con un evento, ordenados
+   * por prioridad y sin duplicados
+   */
+  private getPatternListeners(event: string): ListenerEntry[] {
+    if (this.patternListeners.size === 0) {
+      return [];
+    }
+
+    const names = [
+      event,
+      ...this.getEventNamespaces(event).map((ns) => `${ns}:${event}`),
+    ];
+    let matched: ListenerEntry[] = [];
+    let lists = 0;
+
+    this.patternListeners.forEach((list, pattern) => {
+      const regexp = this.patternRegExps.get(pattern)!;
+      if (names.some((name) => regexp.test(name))) {
+        matched =
+          lists++ === 0
+            ? list.entries
+            : this.mergeEntries(matched, list.entries);
+      }
+    });
+
+    if (lists <= 1) {
+      return matched;
+    }
+
+    // Un listener registrado en varios patrones se ejecuta una sola vez
+    const seen = new Set<Function>();
+    return matched.filter((entry) => {
+      if (seen.has(entry.listener)) return false;
+      seen.add(entry.listener);
+      return true;
+    });
+  }
+
+  /**
+   * Obtiene los listeners de un evento, con los originales de once()
+   */
+  listeners(event: string): Function[] {
+    return this.rawListeners(event).map(
+      (listener) => (listener as OnceWrapper).listener || listener,
+    );
+  }
+
+  /**
+   * Obtiene los listeners registrados de un evento, incluidos los
+   * envoltorios de once()
+   */
+  rawListeners(event: string): Function[] {
+    const list = this.getListenerList(event, false);
+    return list ? list.entries.map((entry) => entry.listener) : [];
+  }
+
   /**
    * Obtiene el número de listeners para un evento
    */
   listenerCount(event: string): number {
-    const listeners = this.events.get(event);
-    return listeners ? listeners.size : 0;
+    const list = this.getListenerList(event, false);
+    return list ? list.registered.size : 0;
   }
 
   /**
-   * Obtiene los nombres de todos los eventos registrados
+   * Indica si emitir el evento llegaría a algún listener, directo o por patrón
+   */
+  hasListeners(event: string): boolean {
+    if (this.listenerCount(event) > 0) {
+      return true;
+    }
+    if (this.patternListeners.size === 0) {
+      return false;
+    }
+
+    const names = [
+      event,
+      ...this.getEventNamespaces(event).map((ns) => `${ns}:${event}`),
+    ];
+    for (const pattern of this.patternListeners.keys()) {
+      const regexp = this.patternRegExps.get(pattern)!;
+      if (names.some((name) => regexp.test(name))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Obtiene los nombres de todos los eventos y patrones registrados
    */
   eventNames(): string[] {
-    return Array.from(this.events.keys());
+    return [
+      ...Array.from(this.eventListeners.keys()),
+      ...Array.from(this.patternListeners.keys()),
+    ];
   }
 
   /**
-   * Establece el número máximo de listeners por evento
+   * Avisa una vez por evento cuando se supera el máximo de listeners,
+   * mediante el evento `warning` o console.warn si nadie lo escucha
+   */
+  private checkMaxListeners(event: string, count: number): void {
+    if (
+      this.maxListeners <= 0 ||
+      count <= this.maxListeners ||
+      this.warnedEvents.has(event)
+    ) {
+      return;
+    }
+
+    this.warnedEvents.add(event);
+    const warning: MaxListenersExceededWarning = {
+      event,
+      count,
+      limit: this.maxListeners,
+      stack: this.getCallerStack(),
+    };
+
+    if (event === "warning" || !this.emit("warning", warning)) {
+      console.warn(
+        `Possible EventEmitter memory leak detected: ${count} "${event}" listeners added (max ${this.maxListeners})`,
+        warning.stack,
+      );
+    }
+  }
+
+  /**
+   * Pila de llamadas a partir del código que registró el listener: se
+   * descartan los frames iniciales del directorio de este módulo
+   */
+  private getCallerStack(): string | undefined {
+    const frames = new Error().stack?.split("\n").slice(1);
+    if (!frames) return undefined;
+
+    const dirOf = (frame: string) =>
+      /\(?([^\s()]+)[\\/][^\s()\\/]+:\d+:\d+\)?$/.exec(frame)?.[1];
+    const ownDir = dirOf(frames[0]);
+    const first = frames.findIndex((frame) => dirOf(frame) !== ownDir);
+
+    return frames.slice(ownDir && first !== -1 ? first : 0).join("\n");
+  }
+
+  /**
+   * Crea el envoltorio de once() conservando el listener original
+   */
+  private createOnceWrapper(event: string, listener: Function): OnceWrapper {
+    const onceWrapper: OnceWrapper = (...args: any[]) => {
+      this.off(event, onceWrapper);
+      return listener(...args);
+    };
+    onceWrapper.listener = listener;
+    return onceWrapper;
+  }
+
+  /**
+   * Establece el número máximo de listeners por evento (0 = sin límite)
    */
   setMaxListeners(n: number): void {
     this.maxListeners = n;
@@ -105,29 +564,51 @@ export class EventEmitter {
   }
 
   /**
-   * Agrega un listener al principio de la cola
+   * Establece qué hacer cuando un listener lanza un error: "emit" lo
+   * notifica con `listenerError`; "rethrow" además lo relanza desde emit()
    */
-  prependListener(event: string, listener: Function): void {
-    if (!this.events.has(event)) {
-      this.events.set(event, new Set());
-    }
+  setListenerErrorStrategy(strategy: ListenerErrorStrategy): void {
+    this.listenerErrorStrategy = strategy;
+  }
+
+  /**
+   * Obtiene la estrategia de errores de listeners
+   */
+  getListenerErrorStrategy(): ListenerErrorStrategy {
+    return this.listenerErrorStrategy;
+  }
 
-    const listeners = this.events.get(event)!;
-    const listenersArray = Array.from(listeners);
-    listeners.clear();
-    listeners.add(listener);
-    listenersArray.forEach((l) => listeners.add(l));
+  /**
+   * Obtiene el número de listeners que han fallado
+   */
+  getListenerFailureCount(): number {
+    return this.listenerFailures;
   }
 
   /**
-   * Agrega un listener que se ejecuta solo una vez al principio de la cola
+   * Agrega un listener al principio de los de su misma prioridad
    */
-  prependOnceListener(event: string, listener: Function): void {
-    const onceWrapper = (...args: any[]) => {
-      this.off(event, onceWrapper);
-      listener(...args);
-    };
+  prependListener(
+    event: string,
+    listener: Function,
+    options: ListenerOptions = {},
+  ): void {
+    this.addListener(event, listener, options, true);
+  }
 
-    this.prependListener(event, onceWrapper);
+  /**
+   * Agrega un listener que se ejecuta solo una vez al principio de los de
+   * su misma prioridad
+   */
+  prependOnceListener(
+    event: string,
+    listener: Function,
+    options: ListenerOptions = {},
+  ): void {
+    this.prependListener(
+      event,
+      this.createOnceWrapper(event, listener),
+      options,
+    );
   }
 }
@@ -0,0 +1,217 @@
+// Filtros declarativos de eventos, serializables a JSON
+import { InvalidFilterError } from "./errors.js";
+import { MessageParser } from "./MessageParser.js";
+import type { EventFilterSpec, ChatMessageEvent } from "./types.js";
+
+export class EventFilter {
+  readonly spec: EventFilterSpec;
+  private regexps: Map<EventFilterSpec, RegExp> = new Map();
+
+  // Badges que identifican a un suscriptor
+  private static readonly SUBSCRIBER_BADGES = ["subscriber", "founder"];
+
+  /**
+   * Valida la especificación y precompila sus expresiones regulares.
+   * Lanza InvalidFilterError si no es válida.
+   */
+  constructor(spec: EventFilterSpec) {
+    this.spec = spec;
+    this.validate(spec);
+  }
+
+  /**
+   * Indica si un evento pasa el filtro. Las reglas de mensaje (sender,
+   * badge, regex, length, subscriber) no se aplican a eventos sin mensaje
+   * de chat: para ellos no restringen nada.
+   */
+  matches(type: string, data: unknown): boolean {
+    return this.evaluate(this.spec, type, data) !== false;
+  }
+
+  /**
+   * Devuelve la especificación para serializarla
+   */
+  toJSON(): EventFilterSpec {
+    return this.spec;
+  }
+
+  /**
+   * Evalúa una regla: true/false, o null si no es aplicable al evento
+   */
+  private evaluate(
+    spec: EventFilterSpec,
+    type: string,
+    data: unknown,
+  ): boolean | null {
+    if ("and" in spec) {
+      const results = spec.and
+        .map((rule) => this.evaluate(rule, type, data))
+        .filter((result) => result !== null);
+      return results.length === 0 ? null : results.every(Boolean);
+    }
+
+    if ("or" in spec) {
+      const results = spec.or
+        .map((rule) => this.evaluate(rule, type, data))
+        .filter((result) => result !== null);
+      return results.length === 0 ? null : results.some(Boolean);
+    }
+
+    if ("not" in spec) {
+      const result = this.evaluate(spec.not, type, data);
+      return result === null ? null : !result;
+    }
+
+    if ("type" in spec) {
+      const types = Array.isArray(spec.type) ? spec.type : [spec.type];
+      return types.includes(type as never);
+    }
+
+    const message = MessageParser.getChatMessage(type, data);
+    if (!message) {
+      return null;
+    }
+
+    if ("sender" in spec) {
+      const username = message.sender?.username?.toLowerCase() || "";
+      const matchesList = (list?: string[]) =>
+        list?.some((name) => name.toLowerCase() === username);
+
+      if (spec.sender.in && !matchesList(spec.sender.in)) return false;
+      if (spec.sender.notIn && matchesList(spec.sender.notIn)) return false;
+      return true;
+    }
+
+    if ("badge" in spec) {
+      const wanted = Array.isArray(spec.badge) ? spec.badge : [spec.badge];
+      return this.getBadges(message).some((badge) => wanted.includes(badge));
+    }
+
+    if ("regex" in spec) {
+      // Con los flags "g" o "y" test() depende de lastIndex
+      const regexp = this.regexps.get(spec)!;
+      regexp.lastIndex = 0;
+      return regexp.test(message.content || "");
+    }
+
+    if ("length" in spec) {
+      const length = (message.content || "").length;
+      return (
+        length >= (spec.length.min ?? 0) &&
+        length <= (spec.length.max ?? Infinity)
+      );
+    }
+
+    if ("subscriber" in spec) {
+      const isSubscriber = this.getBadges(message).some((badge) =>
+        EventFilter.SUBSCRIBER_BADGES.includes(badge),
+      );
+      return isSubscriber === spec.subscriber;
+    }
+
+    return null;
+  }
+
+  /**
+   * Obtiene los tipos de badge del remitente (strings u objetos `{ type }`)
+   */
+  private getBadges(message: ChatMessageEvent): string[] {
+    const badges: unknown[] = message.sender?.identity?.badges || [];
+    return badges
+      .map((badge) =>
+        typeof badge === "string"
+          ? badge
+          : (badge as { type?: string })?.type || "",
+      )
+      .map((badge) => badge.toLowerCase());
+  }
+
+  /**
+   * Valida recursivamente una regla y compila sus expresiones regulares
+   */
+  private validate(spec: EventFilterSpec): void {
+    if (!spec || typeof spec !== "object" || Array.isArray(spec)) {
+      throw new InvalidFilterError(spec, "rule must be an object");
+    }
+
+    const keys = Object.keys(spec);
+    const kind = keys.find((key) => key !== "flags");
+    if (!kind || keys.length > (kind === "regex" ? 2 : 1)) {
+      throw new InvalidFilterError(spec, "rule must have exactly one operator");
+    }
+
+    switch (kind) {
+      case "and":
+      case "or": {
+        const rules = (spec as Record<string, unknown>)[kind];
+        if (!Array.isArray(rules)) {
+          throw new InvalidFilterError(spec, `"${kind}" expects an array`);
+        }
+        rules.forEach((rule) => this.validate(rule));
+        return;
+      }
+
+      case "not":
+        this.validate((spec as { not: EventFilterSpec }).not);
+        return;
+
+      case "type":
+      case "badge": {
+        const value = (spec as Record<string, unknown>)[kind];
+        const values = Array.isArray(value) ? value : [value];
+        if (!values.every((v) => typeof v === "string")) {
+          throw new InvalidFilterError(spec, `"${kind}" expects strings`);
+        }
+        return;
+      }
+
+      case "sender": {
+        const sender = (spec as { sender: Record<string, unknown> }).sender;
+        const lists = [sender?.in, sender?.notIn].filter(
+          (list) => list !== undefined,
+        );
+        if (lists.length === 0 || !lists.every((list) => Array.isArray(list))) {
+          throw new InvalidFilterError(
+            spec,
+            '"sender" expects "in" and/or "notIn" lists',
+          );
+        }
+        return;
+      }
+
+      case "regex": {
+        const { regex, flags } = spec as { regex: string; flags?: string };
+        try {
+          this.regexps.set(spec, new RegExp(regex, flags));
+        } catch (error) {
+          throw new InvalidFilterError(spec, String(error));
+        }
+        return;
+      }
+
+      case "length": {
+        const { min, max } =
+          (spec as { length: Record<string, unknown> }).length ?? {};
+        if (
+          (min !== undefined && typeof min !== "number") ||
+          (max !== undefined && typeof max !== "number")
+        ) {
+          throw new InvalidFilterError(
+            spec,
+            '"length" expects numeric min/max',
+          );
+        }
+        return;
+      }
+
+      case "subscriber":
+        if (typeof (spec as { subscriber: unknown }).subscriber !== "boolean") {
+          throw new InvalidFilterError(spec, '"subscriber" expects a boolean');
+        }
+        return;
+
+      default:
+        throw new InvalidFilterError(spec, `unknown operator "${kind}"`);
+    }
+  }
+}
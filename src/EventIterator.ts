@@ -0,0 +1,138 @@
+// Iterador asíncrono sobre eventos con cola acotada
+import { EventQueueOverflowError } from "./errors.js";
+import type {
+  EventIteratorOptions,
+  EventIteratorOverflowPolicy,
+} from "./types.js";
+
+export class EventIterator<T> implements AsyncIterableIterator<T> {
+  private queue: T[] = [];
+  private waiters: {
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: Error) => void;
+  }[] = [];
+  private done: boolean = false;
+  private error: Error | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private readonly bufferSize: number;
+  private readonly overflow: EventIteratorOverflowPolicy;
+  private readonly signal?: AbortSignal;
+  private readonly onAbort = () => this.close();
+
+  /**
+   * `subscribe` registra los listeners que alimentan la cola y devuelve la
+   * función que los elimina
+   */
+  constructor(
+    subscribe: (push: (value: T) => void) => () => void,
+    options: EventIteratorOptions = {},
+  ) {
+    this.bufferSize = Math.max(1, options.bufferSize ?? 100);
+    this.overflow = options.overflow ?? "drop-oldest";
+    this.signal = options.signal;
+
+    if (this.signal?.aborted) {
+      this.done = true;
+      return;
+    }
+
+    this.signal?.addEventListener("abort", this.onAbort);
+    this.unsubscribe = subscribe((value) => this.push(value));
+  }
+
+  /**
+   * Indica si el iterador ya no recibe eventos
+   */
+  get closed(): boolean {
+    return this.done;
+  }
+
+  /**
+   * Obtiene el siguiente evento, esperando si la cola está vacía
+   */
+  next(): Promise<IteratorResult<T>> {
+    if (this.queue.length > 0) {
+      return Promise.resolve({ value: this.queue.shift()!, done: false });
+    }
+
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+
+    if (this.done) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * Finaliza el iterador descartando los eventos pendientes (break en for await)
+   */
+  return(): Promise<IteratorResult<T>> {
+    this.queue = [];
+    this.error = null;
+    this.close();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this;
+  }
+
+  /**
+   * Deja de recibir eventos; los ya encolados se siguen entregando
+   */
+  close(): void {
+    if (this.done) return;
+
+    this.done = true;
+    this.detach();
+
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((waiter) =>
+      waiter.resolve({ value: undefined, done: true }),
+    );
+  }
+
+  /**
+   * Encola un evento aplicando la política de desbordamiento
+   */
+  private push(value: T): void {
+    if (this.done) return;
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve({ value, done: false });
+      return;
+    }
+
+    if (this.queue.length >= this.bufferSize) {
+      switch (this.overflow) {
+        case "drop-newest":
+          return;
+        case "error":
+          this.error = new EventQueueOverflowError(this.bufferSize);
+          this.close();
+          return;
+        default:
+          this.queue.shift();
+      }
+    }
+
+    this.queue.push(value);
+  }
+
+  /**
+   * Elimina los listeners registrados
+   */
+  private detach(): void {
+    this.signal?.removeEventListener("abort", this.onAbort);
+    const unsubscribe = this.unsubscribe;
+    this.unsubscribe = null;
+    unsubscribe?.();
+  }
+}
@@ -0,0 +1,330 @@
+// Buffer de mensajes raw con índices por tipo y remitente para consultas
+import { RingBuffer } from "./RingBuffer.js";
+import { MessageParser } from "./MessageParser.js";
+import type {
+  BufferedMessage,
+  BufferedEvent,
+  BufferQueryOptions,
+  EventDataMap,
+  ParsedEvent,
+} from "./types.js";
+
+interface BufferEntry {
+  // Orden de llegada, para mezclar resultados de varios índices
+  seq: number;
+  message: BufferedMessage;
+  // Evento parseado bajo demanda; null si el frame no se pudo parsear
+  parsed?: ParsedEvent | null;
+  // Claves con las que la entrada está en el índice de remitentes
+  senderKeys?: string[];
+}
+
+export class MessageBuffer {
+  private entries: RingBuffer<BufferEntry>;
+  private seq: number = 0;
+  private typeIndex: Map<string, Set<BufferEntry>> = new Map();
+  private senderIndex: Map<string, Set<BufferEntry>> = new Map();
+  // Entradas con remitente que aún no se han indexado; se parsean en la
+  // primera consulta por remitente para no encarecer la recepción
+  private pendingSenders: Set<BufferEntry> = new Set();
+
+  // Tipos de evento que llevan un mensaje de chat con remitente
+  private static readonly SENDER_TYPES: (keyof EventDataMap)[] = [
+    "ChatMessage",
+    "PinnedMessageCreated",
+  ];
+
+  constructor(capacity: number) {
+    this.entries = new RingBuffer(capacity);
+  }
+
+  /**
+   * Número de mensajes almacenados
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Número máximo de mensajes
+   */
+  get capacity(): number {
+    return this.entries.capacity;
+  }
+
+  /**
+   * Agrega un mensaje, descartando el más antiguo si está lleno
+   */
+  add(message: BufferedMessage): void {
+    const entry: BufferEntry = { seq: this.seq++, message };
+    if (message.type) {
+      this.addToIndex(this.typeIndex, message.type, entry);
+      if (MessageBuffer.SENDER_TYPES.includes(message.type)) {
+        this.pendingSenders.add(entry);
+      }
+    }
+
+    const evicted = this.entries.push(entry);
+    if (evicted) {
+      this.unindex(evicted);
+    }
+  }
+
+  /**
+   * Cambia la capacidad conservando los mensajes más recientes
+   */
+  resize(capacity: number): void {
+    this.entries.resize(capacity).forEach((entry) => this.unindex(entry));
+  }
+
+  /**
+   * Vacía el buffer
+   */
+  clear(): void {
+    this.entries.clear();
+    this.typeIndex.clear();
+    this.senderIndex.clear();
+    this.pendingSenders.clear();
+  }
+
+  /**
+   * Obtiene los mensajes, del más antiguo al más reciente
+   */
+  getMessages(): BufferedMessage[] {
+    return this.entries.toArray().map((entry) => entry.message);
+  }
+
+  /**
+   * Obtiene los frames raw de un tipo de evento
+   */
+  getRawByType(type: keyof EventDataMap): string[] {
+    return Array.from(
+      this.typeIndex.get(type) || [],
+      (entry) => entry.message.raw,
+    );
+  }
+
+  /**
+   * Elimina los mensajes de un tipo de evento
+   */
+  removeType(type: keyof EventDataMap): void {
+    if (!this.typeIndex.has(type)) {
+      return;
+    }
+
+    this.entries
+      .removeWhere((entry) => entry.message.type === type)
+      .forEach((entry) => this.unindex(entry));
+  }
+
+  /**
+   * Obtiene el total, los conteos por tipo y el rango temporal
+   */
+  getStats(): {
+    total: number;
+    byType: Record<string, number>;
+    oldestTimestamp?: Date;
+    newestTimestamp?: Date;
+  } {
+    const byType: Record<string, number> = {};
+    this.typeIndex.forEach((entries, type) => (byType[type] = entries.size));
+
+    return {
+      total: this.entries.size,
+      byType,
+      oldestTimestamp: this.entries.first()?.message.receivedAt,
+      newestTimestamp: this.entries.last()?.message.receivedAt,
+    };
+  }
+
+  /**
+   * Busca eventos en el buffer. Los índices por tipo y remitente acotan
+   * los candidatos; cada frame se parsea como mucho una vez.
+   */
+  query(options: BufferQueryOptions = {}): BufferedEvent[] {
+    const since = this.toTime(options.since);
+    const until = this.toTime(options.until);
+    const contains = options.contains?.toLowerCase();
+    const regex =
+      typeof options.regex === "string"
+        ? new RegExp(options.regex)
+        : options.regex;
+    const limit = options.limit ?? Infinity;
+
+    const candidates = this.getCandidates(options);
+    if (options.order === "desc") {
+      candidates.reverse();
+    }
+
+    const results: BufferedEvent[] = [];
+    for (const entry of candidates) {
+      if (results.length >= limit) break;
+
+      const { receivedAt } = entry.message;
+      if (since !== undefined && receivedAt.getTime() < since) continue;
+      if (until !== undefined && receivedAt.getTime() > until) continue;
+
+      const parsed = this.parse(entry);
+      if (!parsed) continue;
+
+      if (contains !== undefined || regex) {
+        const content = MessageParser.getChatMessage(
+          parsed.type,
+          parsed.data,
+        )?.content;
+        if (content === undefined) continue;
+        if (
+          contains !== undefined &&
+          !content.toLowerCase().includes(contains)
+        ) {
+          continue;
+        }
+        if (regex) {
+          regex.lastIndex = 0;
+          if (!regex.test(content)) continue;
+        }
+      }
+
+      results.push({
+        type: parsed.type,
+        data: parsed.data,
+        raw: entry.message.raw,
+        receivedAt,
+        channel: entry.message.channel,
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Obtiene las entradas candidatas en orden de llegada usando los índices
+   */
+  private getCandidates(options: BufferQueryOptions): BufferEntry[] {
+    const types = options.types
+      ? Array.isArray(options.types)
+        ? options.types
+        : [options.types]
+      : null;
+
+    let bySender: Set<BufferEntry> | null = null;
+    if (options.sender !== undefined) {
+      this.indexPendingSenders();
+      bySender = this.senderIndex.get(this.getSenderKey(options.sender));
+      if (!bySender) {
+        return [];
+      }
+    }
+
+    if (bySender) {
+      const candidates = Array.from(bySender);
+      return types
+        ? candidates.filter((entry) => types.includes(entry.message.type!))
+        : candidates;
+    }
+
+    if (types) {
+      const candidates: BufferEntry[] = [];
+      new Set(types).forEach((type) =>
+        this.typeIndex.get(type)?.forEach((entry) => candidates.push(entry)),
+      );
+      return types.length > 1
+        ? candidates.sort((a, b) => a.seq - b.seq)
+        : candidates;
+    }
+
+    return this.entries.toArray().filter((entry) => entry.message.type);
+  }
+
+  /**
+   * Indexa por remitente las entradas pendientes
+   */
+  private indexPendingSenders(): void {
+    this.pendingSenders.forEach((entry) => {
+      const parsed = this.parse(entry);
+      const sender =
+        parsed &&
+        MessageParser.getChatMessage(parsed.type, parsed.data)?.sender;
+      if (!sender) return;
+
+      entry.senderKeys = [];
+      if (typeof sender.id === "number") {
+        entry.senderKeys.push(this.getSenderKey(sender.id));
+      }
+      if (sender.username) {
+        entry.senderKeys.push(this.getSenderKey(sender.username));
+      }
+      entry.senderKeys.forEach((key) =>
+        this.addToIndex(this.senderIndex, key, entry),
+      );
+    });
+    this.pendingSenders.clear();
+  }
+
+  /**
+   * Clave del índice de remitentes: id numérico o username sin mayúsculas
+   */
+  private getSenderKey(sender: number | string): string {
+    return typeof sender === "number"
+      ? `id:${sender}`
+      : `name:${sender.toLowerCase()}`;
+  }
+
+  /**
+   * Parsea una entrada una sola vez
+   */
+  private parse(entry: BufferEntry): ParsedEvent | null {
+    if (entry.parsed === undefined) {
+      const frame = MessageParser.decodeFrame(entry.message.raw);
+      entry.parsed = frame ? MessageParser.parseFrame(frame) : null;
+    }
+    return entry.parsed;
+  }
+
+  /**
+   * Quita una entrada que sale del buffer de todos los índices
+   */
+  private unindex(entry: BufferEntry): void {
+    if (entry.message.type) {
+      this.removeFromIndex(this.typeIndex, entry.message.type, entry);
+    }
+    entry.senderKeys?.forEach((key) =>
+      this.removeFromIndex(this.senderIndex, key, entry),
+    );
+    this.pendingSenders.delete(entry);
+  }
+
+  private addToIndex(
+    index: Map<string, Set<BufferEntry>>,
+    key: string,
+    entry: BufferEntry,
+  ): void {
+    let entries = index.get(key);
+    if (!entries) {
+      entries = new Set();
+      index.set(key, entries);
+    }
+    entries.add(entry);
+  }
+
+  private removeFromIndex(
+    index: Map<string, Set<BufferEntry>>,
+    key: string,
+    entry: BufferEntry,
+  ): void {
+    const entries = index.get(key);
+    if (!entries) return;
+
+    entries.delete(entry);
+    if (entries.size === 0) {
+      index.delete(key);
+    }
+  }
+
+  /**
+   * Convierte una fecha o timestamp a milisegundos
+   */
+  private toTime(value?: Date | number): number | undefined {
+    return value instanceof Date ? value.getTime() : value;
+  }
+}
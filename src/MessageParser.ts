@@ -11,8 +11,10 @@ import type {
   StreamHostEvent,
   PollUpdateEvent,
   PollDeleteEvent,
-  KickEventType,
-  KickEventData,
+  KickEventNamespace,
+  EventDataMap,
+  EventParser,
+  ParsedEvent,
   RawChatMessageData,
   RawMessageDeletedData,
   RawUserBannedData,
@@ -26,127 +28,222 @@ import type {
 } from "./types.js";
 
 export class MessageParser {
+  // Parsers registrados por nombre de evento de Pusher
+  private static readonly parsers: Map<string, EventParser> = new Map<
+    string,
+    EventParser
+  >([
+    [
+      "App\\Events\\ChatMessageEvent",
+      {
+        type: "ChatMessage",
+        parse: (data) =>
+          MessageParser.parseChatMessage(data as RawChatMessageData),
+      },
+    ],
+    [
+      "App\\Events\\MessageDeletedEvent",
+      {
+        type: "MessageDeleted",
+        parse: (data) =>
+          MessageParser.parseMessageDeleted(data as RawMessageDeletedData),
+      },
+    ],
+    [
+      "App\\Events\\UserBannedEvent",
+      {
+        type: "UserBanned",
+        parse: (data) =>
+          MessageParser.parseUserBanned(data as RawUserBannedData),
+      },
+    ],
+    [
+      "App\\Events\\UserUnbannedEvent",
+      {
+        type: "UserUnbanned",
+        parse: (data) =>
+          MessageParser.parseUserUnbanned(data as RawUserUnbannedData),
+      },
+    ],
+    [
+      "App\\Events\\SubscriptionEvent",
+      {
+        type: "Subscription",
+        parse: (data) =>
+          MessageParser.parseSubscription(data as RawSubscriptionData),
+      },
+    ],
+    [
+      "App\\Events\\GiftedSubscriptionsEvent",
+      {
+        type: "GiftedSubscriptions",
+        parse: (data) =>
+          MessageParser.parseGiftedSubscriptions(
+            data as RawGiftedSubscriptionsData,
+          ),
+      },
+    ],
+    [
+      "App\\Events\\PinnedMessageCreatedEvent",
+      {
+        type: "PinnedMessageCreated",
+        parse: (data) =>
+          MessageParser.parsePinnedMessageCreated(
+            data as RawPinnedMessageCreatedData,
+          ),
+      },
+    ],
+    [
+      "App\\Events\\StreamHostEvent",
+      {
+        type: "StreamHost",
+        parse: (data) =>
+          MessageParser.parseStreamHost(data as RawStreamHostData),
+      },
+    ],
+    [
+      "App\\Events\\PollUpdateEvent",
+      {
+        type: "PollUpdate",
+        parse: (data) =>
+          MessageParser.parsePollUpdate(data as RawPollUpdateData),
+      },
+    ],
+    [
+      "App\\Events\\PollDeleteEvent",
+      {
+        type: "PollDelete",
+        parse: (data) =>
+          MessageParser.parsePollDelete(data as RawPollDeleteData),
+      },
+    ],
+  ]);
+
   /**
-   * Parsea un mensaje raw del WebSocket y devuelve el evento procesado
+   * Registra (o reemplaza) el parser de un evento de Pusher
    */
-  static parseMessage(
-    rawMessage: string,
-  ): { type: KickEventType; data: KickEventData } | null {
-    try {
-      // Validar que el mensaje no esté vacío
-      if (!rawMessage || rawMessage.trim() === "") {
-        return null;
-      }
+  static registerEventParser<K extends keyof EventDataMap>(
+    pusherEventName: string,
+    parser: EventParser<K>,
+  ): void {
+    this.parsers.set(pusherEventName, parser);
+  }
 
-      const message: WebSocketMessage = JSON.parse(rawMessage);
+  /**
+   * Elimina el parser de un evento de Pusher
+   */
+  static unregisterEventParser(pusherEventName: string): boolean {
+    return this.parsers.delete(pusherEventName);
+  }
 
-      // Validar que el mensaje tenga las propiedades necesarias
-      if (!message.event || message.data === undefined) {
-        return null;
-      }
+  /**
+   * Obtiene el parser registrado para un evento de Pusher
+   */
+  static getEventParser(pusherEventName: string): EventParser | undefined {
+    return this.parsers.get(pusherEventName);
+  }
 
-      // Ignorar mensajes de sistema del WebSocket
-      if (
-        message.event.startsWith("pusher:") ||
-        message.event.startsWith("pusher_internal:")
-      ) {
-        return null;
+  /**
+   * Obtiene el namespace declarado por el parser de un tipo de evento
+   */
+  static getEventNamespace(
+    type: keyof EventDataMap,
+  ): KickEventNamespace | undefined {
+    for (const parser of this.parsers.values()) {
+      if (parser.type === type && parser.namespace) {
+        return parser.namespace;
       }
+    }
+    return undefined;
+  }
 
-      // Ignorar eventos vacíos
-      if (message.event === "" || message.data === "") {
-        return null;
-      }
+  /**
+   * Obtiene el mensaje de chat de un evento ya parseado, si lo tiene
+   * (ChatMessage o el mensaje fijado de PinnedMessageCreated)
+   */
+  static getChatMessage(type: string, data: unknown): ChatMessageEvent | null {
+    if (type === "ChatMessage") {
+      return data as ChatMessageEvent;
+    }
+    if (type === "PinnedMessageCreated") {
+      return (data as PinnedMessageCreatedEvent)?.message || null;
+    }
+    return null;
+  }
+
+  /**
+   * Parsea un mensaje raw del WebSocket y devuelve el evento procesado
+   */
+  static parseMessage(rawMessage: string): ParsedEvent | null {
+    const message = this.decodeFrame(rawMessage);
+    return message ? this.parseFrame(message) : null;
+  }
+
+  /**
+   * Decodifica el envoltorio de Pusher de un frame raw sin tocar su campo
+   * `data`. Devuelve null si el frame no es JSON o no tiene evento.
+   */
+  static decodeFrame(rawMessage: string): WebSocketMessage | null {
+    // Validar que el mensaje no esté vacío
+    if (!rawMessage || rawMessage.trim() === "") {
+      return null;
+    }
 
-      // Parsear los datos del evento
-      let eventData: unknown;
-      try {
-        // Validar que los datos no sean undefined o vacíos antes de parsear
-        if (message.data === undefined || message.data === "") {
-          return null;
-        }
-        eventData = JSON.parse(message.data);
-      } catch (e) {
-        console.error("Error parsing event data:", e);
+    try {
+      const message = JSON.parse(rawMessage);
+      if (!message || typeof message.event !== "string" || !message.event) {
         return null;
       }
+      return message as WebSocketMessage;
+    } catch {
+      return null;
+    }
+  }
 
-      // Mapear eventos de Kick.com a tipos estándar
-      switch (message.event) {
-        case "App\\Events\\ChatMessageEvent":
-          return {
-            type: "ChatMessage",
-            data: this.parseChatMessage(eventData as RawChatMessageData),
-          };
-
-        case "App\\Events\\MessageDeletedEvent":
-          return {
-            type: "MessageDeleted",
-            data: this.parseMessageDeleted(eventData as RawMessageDeletedData),
-          };
-
-        case "App\\Events\\UserBannedEvent":
-          return {
-            type: "UserBanned",
-            data: this.parseUserBanned(eventData as RawUserBannedData),
-          };
-
-        case "App\\Events\\UserUnbannedEvent":
-          return {
-            type: "UserUnbanned",
-            data: this.parseUserUnbanned(eventData as RawUserUnbannedData),
-          };
-
-        case "App\\Events\\SubscriptionEvent":
-          return {
-            type: "Subscription",
-            data: this.parseSubscription(eventData as RawSubscriptionData),
-          };
-
-        case "App\\Events\\GiftedSubscriptionsEvent":
-          return {
-            type: "GiftedSubscriptions",
-            data: this.parseGiftedSubscriptions(
-              eventData as RawGiftedSubscriptionsData,
-            ),
-          };
-
-        case "App\\Events\\PinnedMessageCreatedEvent":
-          return {
-            type: "PinnedMessageCreated",
-            data: this.parsePinnedMessageCreated(
-              eventData as RawPinnedMessageCreatedData,
-            ),
-          };
-
-        case "App\\Events\\StreamHostEvent":
-          return {
-            type: "StreamHost",
-            data: this.parseStreamHost(eventData as RawStreamHostData),
-          };
-
-        case "App\\Events\\PollUpdateEvent":
-          return {
-            type: "PollUpdate",
-            data: this.parsePollUpdate(eventData as RawPollUpdateData),
-          };
-
-        case "App\\Events\\PollDeleteEvent":
-          return {
-            type: "PollDelete",
-            data: this.parsePollDelete(eventData as RawPollDeleteData),
-          };
-
-        default:
-          // No mostrar warning para eventos de sistema de Pusher
-          if (
-            !message.event?.startsWith("pusher:") &&
-            !message.event?.startsWith("pusher_internal:")
-          ) {
-            console.warn("Unknown event type:", message.event);
-          }
-          return null;
-      }
+  /**
+   * Indica si un evento es de sistema de Pusher
+   */
+  static isPusherEvent(eventName: string): boolean {
+    return (
+      eventName.startsWith("pusher:") ||
+      eventName.startsWith("pusher_internal:")
+    );
+  }
+
+  /**
+   * Parsea un evento a partir de su envoltorio ya decodificado: decodifica
+   * `data` y aplica el parser registrado
+   */
+  static parseFrame(message: WebSocketMessage): ParsedEvent | null {
+    // Ignorar mensajes de sistema del WebSocket y eventos vacíos
+    if (
+      this.isPusherEvent(message.event) ||
+      message.data === undefined ||
+      message.data === ""
+    ) {
+      return null;
+    }
+
+    // Los eventos sin parser se notifican como unknownEvent en KickWebSocket
+    const parser = this.parsers.get(message.event);
+    if (!parser) {
+      return null;
+    }
+
+    // Parsear los datos del evento
+    let eventData: unknown;
+    try {
+      eventData =
+        typeof message.data === "string"
+          ? JSON.parse(message.data)
+          : message.data;
+    } catch (e) {
+      console.error("Error parsing event data:", e);
+      return null;
+    }
+
+    try {
+      return { type: parser.type, data: parser.parse(eventData) };
     } catch (error) {
       console.error("Error parsing message:", error);
       return null;
@@ -343,35 +440,25 @@ export class MessageParser {
    * Extrae el tipo de evento de un mensaje raw
    */
   static extractEventType(rawMessage: string): string | null {
-    try {
-      // Validar que el mensaje no esté vacío
-      if (!rawMessage || rawMessage.trim() === "") {
-        return null;
-      }
-
-      const message = JSON.parse(rawMessage) as WebSocketMessage;
-
-      // Validar que el evento exista
-      if (!message.event) {
-        return null;
-      }
-
-      // Ignorar eventos de sistema de Pusher
-      if (
-        message.event.startsWith("pusher:") ||
-        message.event.startsWith("pusher_internal:")
-      ) {
-        return null;
-      }
+    const message = this.decodeFrame(rawMessage);
 
-      // Ignorar eventos vacíos
-      if (message.event === "") {
-        return null;
-      }
-
-      return message.event;
-    } catch {
+    // Ignorar eventos de sistema de Pusher
+    if (!message || this.isPusherEvent(message.event)) {
       return null;
     }
+
+    return message.event;
   }
 }
+
+/**
+ * Registra el parser de un evento de Pusher que la librería aún no conoce
+ * (o reemplaza uno existente). Para tipar el evento en `on()`, amplía
+ * `EventDataMap` mediante declaration merging.
+ */
+export function registerEventParser<K extends keyof EventDataMap>(
+  pusherEventName: string,
+  parser: EventParser<K>,
+): void {
+  MessageParser.registerEventParser(pusherEventName, parser);
+}
@@ -0,0 +1,40 @@
+// Serialización NDJSON de eventos para pipelines de streams
+import type { StreamEvent } from "./types.js";
+
+/**
+ * Convierte los errores en objetos serializables
+ */
+function replaceErrors(_key: string, value: unknown): unknown {
+  return value instanceof Error
+    ? { name: value.name, message: value.message }
+    : value;
+}
+
+/**
+ * Crea un TransformStream que serializa eventos parseados como NDJSON
+ * (una línea `{ type, data, context }` por evento)
+ */
+export function createNdjsonEncoder(): TransformStream<StreamEvent, string> {
+  return new TransformStream<StreamEvent, string>({
+    transform(event, controller) {
+      controller.enqueue(JSON.stringify(event, replaceErrors) + "\n");
+    },
+  });
+}
+
+/**
+ * Crea un TransformStream que escribe frames raw del WebSocket como NDJSON
+ * (un frame por línea). Acepta tanto strings como eventos `rawMessage`.
+ */
+export function createRawNdjsonEncoder(): TransformStream<
+  string | StreamEvent<"rawMessage">,
+  string
+> {
+  return new TransformStream<string | StreamEvent<"rawMessage">, string>({
+    transform(frame, controller) {
+      const raw = typeof frame === "string" ? frame : frame.data;
+      // Los saltos de línea fuera de strings JSON son espacios prescindibles
+      controller.enqueue(raw.replace(/\r?\n/g, "") + "\n");
+    },
+  });
+}
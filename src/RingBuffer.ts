@@ -0,0 +1,124 @@
+// Buffer circular de capacidad fija: insertar y descartar el más antiguo es O(1)
+export class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private start: number = 0;
+  private count: number = 0;
+
+  constructor(capacity: number) {
+    this.items = new Array(Math.max(0, Math.floor(capacity)));
+  }
+
+  /**
+   * Número de elementos almacenados
+   */
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Número máximo de elementos
+   */
+  get capacity(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Agrega un elemento; si el buffer está lleno devuelve el más antiguo,
+   * que queda descartado
+   */
+  push(item: T): T | undefined {
+    if (this.capacity === 0) {
+      return item;
+    }
+
+    if (this.count < this.capacity) {
+      this.items[(this.start + this.count) % this.capacity] = item;
+      this.count++;
+      return undefined;
+    }
+
+    const evicted = this.items[this.start];
+    this.items[this.start] = item;
+    this.start = (this.start + 1) % this.capacity;
+    return evicted;
+  }
+
+  /**
+   * Obtiene el elemento en la posición `index` (0 = el más antiguo)
+   */
+  at(index: number): T | undefined {
+    if (index < 0 || index >= this.count) {
+      return undefined;
+    }
+    return this.items[(this.start + index) % this.capacity];
+  }
+
+  /**
+   * Obtiene el elemento más antiguo
+   */
+  first(): T | undefined {
+    return this.at(0);
+  }
+
+  /**
+   * Obtiene el elemento más reciente
+   */
+  last(): T | undefined {
+    return this.at(this.count - 1);
+  }
+
+  /**
+   * Copia los elementos, del más antiguo al más reciente
+   */
+  toArray(): T[] {
+    const result: T[] = new Array(this.count);
+    for (let i = 0; i < this.count; i++) {
+      result[i] = this.items[(this.start + i) % this.capacity]!;
+    }
+    return result;
+  }
+
+  /**
+   * Cambia la capacidad conservando los elementos más recientes. Devuelve
+   * los elementos descartados al reducirla.
+   */
+  resize(capacity: number): T[] {
+    const items = this.toArray();
+    const newCapacity = Math.max(0, Math.floor(capacity));
+    const evicted = items.splice(0, Math.max(0, items.length - newCapacity));
+
+    this.items = new Array(newCapacity);
+    items.forEach((item, i) => (this.items[i] = item));
+    this.start = 0;
+    this.count = items.length;
+    return evicted;
+  }
+
+  /**
+   * Elimina los elementos que cumplen el predicado y los devuelve
+   */
+  removeWhere(predicate: (item: T) => boolean): T[] {
+    const removed: T[] = [];
+    const kept: T[] = [];
+    this.toArray().forEach((item) =>
+      (predicate(item) ? removed : kept).push(item),
+    );
+
+    if (removed.length > 0) {
+      this.items = new Array(this.capacity);
+      kept.forEach((item, i) => (this.items[i] = item));
+      this.start = 0;
+      this.count = kept.length;
+    }
+    return removed;
+  }
+
+  /**
+   * Vacía el buffer
+   */
+  clear(): void {
+    this.items = new Array(this.capacity);
+    this.start = 0;
+    this.count = 0;
+  }
+}
@@ -1,12 +1,29 @@
 // Gestor principal de conexión WebSocket para Kick.com
 import { EventEmitter } from "./EventEmitter.js";
 import { MessageParser } from "./MessageParser.js";
+import { createDefaultChannelResolver } from "./ChannelResolver.js";
+import { ChannelIdentifier } from "./ChannelIdentifier.js";
+import { EventIterator } from "./EventIterator.js";
+import { EventFilter } from "./EventFilter.js";
+import { MessageBuffer } from "./MessageBuffer.js";
+import {
+  SubscriptionError,
+  ConnectTimeoutError,
+  ConnectionClosedError,
+  PusherError,
+  AbortError,
+  MiddlewareError,
+} from "./errors.js";
+import { KICK_EVENT_NAMESPACES } from "./types.js";
 import type {
   KickEventType,
   KickWebSocketOptions,
   ConnectionState,
   EventHandler,
-  KickChannel,
+  ChannelContext,
+  ChannelTarget,
+  ConnectOptions,
+  ResolvedChannel,
   ChatMessageEvent,
   MessageDeletedEvent,
   UserBannedEvent,
@@ -17,19 +34,102 @@ import type {
   StreamHostEvent,
   PollUpdateEvent,
   PollDeleteEvent,
+  SubscriptionErrorEvent,
+  ReconnectPolicy,
+  ReconnectingEvent,
+  ReconnectFailedEvent,
+  ChannelChangedEvent,
+  DisconnectCategory,
+  DisconnectEvent,
+  StateChangeEvent,
+  ListenerErrorEvent,
+  UnknownEvent,
+  BufferedMessage,
+  BufferedEvent,
+  BufferQueryOptions,
+  MaxListenersExceededWarning,
+  ConnectionHistoryEntry,
+  WebSocketLike,
   EventDataMap,
+  EventIteratorOptions,
+  EventStreamOptions,
+  StreamEvent,
+  EventPattern,
+  PatternEventHandler,
+  ListenerOptions,
+  WaitForOptions,
+  Middleware,
+  MiddlewareEvent,
 } from "./types.js";
 
 export class WebSocketManager extends EventEmitter {
-  private ws: WebSocket | null = null;
+  private ws: WebSocketLike | null = null;
+  private channelTarget: ChannelTarget = "";
   private channelName: string = "";
   private channelId: number = 0;
+  private channels: Map<number, ChannelContext> = new Map();
   private connectionState: ConnectionState = "disconnected";
   private options: Required<KickWebSocketOptions>;
   private reconnectTimer: number | null = null;
-  private messageBuffer: string[] = [];
+  private reconnectAttempts: number = 0;
+  private stableTimer: number | null = null;
+  // Frames raw recientes, indexados por tipo y remitente
+  private messageBuffer: MessageBuffer;
   private isManualDisconnect: boolean = false;
 
+  // Estado del protocolo de keepalive de Pusher
+  private socketId: string | null = null;
+  private lastActivityAt: number | null = null;
+  private serverActivityTimeout: number | null = null;
+  private activityTimer: number | null = null;
+  private pongTimer: number | null = null;
+
+  // Historial acotado de sesiones de conexión (la última puede estar activa)
+  private connectionHistory: {
+    channel: string;
+    chatroomId: number;
+    connectedAt: number;
+    disconnectedAt: number | null;
+    reconnectAttempts: number;
+    disconnect: DisconnectEvent | null;
+  }[] = [];
+
+  // Veces que se ha recibido cada evento de Pusher sin parser
+  private unknownEventCounts: Map<string, number> = new Map();
+
+  // Filtro declarativo compilado a partir de options.eventFilter
+  private eventFilter: EventFilter | null = null;
+
+  // Middleware entre el parseo y la emisión; la cola mantiene el orden
+  // de los eventos cuando hay middleware asíncrono
+  private middlewares: Middleware[] = [];
+  private middlewareQueue: Promise<void> = Promise.resolve();
+  // Se incrementa en cada teardown; los eventos encolados de una
+  // generación anterior se descartan en lugar de emitirse
+  private generation: number = 0;
+
+  // Iteradores de events()/stream() que terminan con disconnect()
+  private iterators: Set<EventIterator<unknown>> = new Set();
+
+  // Promesa devuelta por el connect() en curso
+  private connectPromise: Promise<void> | null = null;
+
+  // Promesa de connect() pendiente de la confirmación de suscripción
+  private pendingConnect: {
+    resolve: () => void;
+    reject: (error: Error) => void;
+    timer: number;
+  } | null = null;
+
+  // Ciclo de vida cancelable de la conexión actual (connect y reconexiones)
+  private lifecycle: {
+    controller: AbortController;
+    cleanup: () => void;
+  } | null = null;
+
+  // Valor de readyState de un WebSocket abierto
+  private readonly WS_OPEN = 1;
+
   // URL del WebSocket de Kick.com
   private readonly WEBSOCKET_URL =
     "wss://ws-us2.pusher.com/app/32cbd69e4b950bf97679";
@@ -52,19 +152,69 @@ export class WebSocketManager extends EventEmitter {
       debug: false,
       autoReconnect: true,
       reconnectInterval: 5000,
+      reconnectPolicy: {},
       enableBuffer: false,
       bufferSize: 1000,
       filteredEvents: [],
+      includeEvents: [],
+      excludeEvents: [],
+      eventFilter: undefined,
+      activityTimeout: 120000,
+      pongTimeout: 30000,
+      connectTimeout: 10000,
+      webSocketFactory: (url) => new WebSocket(url),
+      fetch: (url, init) => fetch(url, init),
+      channelResolver: createDefaultChannelResolver((url, init) =>
+        this.options.fetch(url, init),
+      ),
+      followHosts: false,
+      signal: undefined,
+      historySize: 50,
+      listenerErrorStrategy: "emit",
       ...options,
     };
 
+    this.setListenerErrorStrategy(this.options.listenerErrorStrategy);
+    this.eventFilter = this.compileEventFilter();
+    this.messageBuffer = new MessageBuffer(this.options.bufferSize);
+
     this.log("WebSocketManager initialized with options:", this.options);
   }
 
   /**
-   * Conecta al WebSocket de un canal específico
+   * Conecta al WebSocket de un canal específico. La promesa se resuelve
+   * cuando Pusher confirma la suscripción al canal. Con `{ chatroomId }`
+   * se conecta directamente sin consultar la API. Si `signal` (o la opción
+   * de instancia `signal`) se aborta, la conexión se cancela y la promesa
+   * se rechaza con un AbortError. Mientras una conexión está en curso,
+   * llamarlo de nuevo devuelve la misma promesa.
+   */
+  connect(channel: ChannelTarget, options: ConnectOptions = {}): Promise<void> {
+    if (this.connectPromise) {
+      this.log("Already connecting");
+      return this.connectPromise;
+    }
+
+    const attempt = this.establishConnection(channel, options).finally(() => {
+      if (this.connectPromise === attempt) {
+        this.connectPromise = null;
+      }
+    });
+    this.connectPromise = attempt;
+    return attempt;
+  }
+
+  /**
+   * Cuerpo de connect(): resuelve el canal, abre el socket y espera la
+   * confirmación de suscripción
    */
-  async connect(channelName: string): Promise<void> {
+  private async establishConnection(
+    channel: ChannelTarget,
+    options: ConnectOptions,
+  ): Promise<void> {
+    // Validar el identificador antes de cualquier petición de red
+    channel = this.normalizeTarget(channel);
+
     if (
       this.connectionState === "connected" ||
       this.connectionState === "connecting"
@@ -73,33 +223,129 @@ export class WebSocketManager extends EventEmitter {
       return;
     }
 
-    this.channelName = channelName;
+    const signal = this.startLifecycle(options.signal);
+    this.channelTarget = channel;
+    this.channelName = this.getTargetLabel(channel);
     this.isManualDisconnect = false;
+    this.reconnectAttempts = 0;
 
     try {
       await this.performConnection();
     } catch (error) {
+      // Una cancelación ya dejó el gestor desconectado: no se reintenta
+      if (signal.aborted) {
+        throw this.getAbortReason(signal);
+      }
       this.handleConnectionError(error as Error);
       throw error;
     }
+
+    await this.waitForSubscription();
+  }
+
+  /**
+   * Espera la confirmación de suscripción del canal principal. Una espera
+   * anterior (p. ej. un connect() seguido de switchChannel()) se encadena
+   * a la nueva confirmación en lugar de rechazarse.
+   */
+  private waitForSubscription(): Promise<void> {
+    const superseded = this.pendingConnect;
+    if (superseded) {
+      clearTimeout(superseded.timer);
+      this.pendingConnect = null;
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const timeout = this.options.connectTimeout;
+      const timer = setTimeout(() => {
+        this.failPendingConnect(
+          new ConnectTimeoutError(this.channelName, timeout),
+        );
+      }, timeout) as unknown as number;
+
+      this.pendingConnect = {
+        resolve: () => {
+          superseded?.resolve();
+          resolve();
+        },
+        reject: (error) => {
+          superseded?.reject(error);
+          reject(error);
+        },
+        timer,
+      };
+    });
+  }
+
+  /**
+   * Resuelve la promesa de connect() pendiente
+   */
+  private resolvePendingConnect(): void {
+    const pending = this.pendingConnect;
+    if (!pending) return;
+
+    this.pendingConnect = null;
+    clearTimeout(pending.timer);
+    pending.resolve();
+  }
+
+  /**
+   * Rechaza la promesa de connect() pendiente sin tocar la conexión
+   */
+  private rejectPendingConnect(error: Error): void {
+    const pending = this.pendingConnect;
+    if (!pending) return;
+
+    this.pendingConnect = null;
+    clearTimeout(pending.timer);
+    pending.reject(error);
+  }
+
+  /**
+   * Cierra el socket y trata la conexión pendiente como fallida
+   */
+  private failPendingConnect(error: Error): void {
+    if (!this.pendingConnect) return;
+
+    this.log("Connection failed before subscription:", error.message);
+    this.detachSocket();
+    this.rejectPendingConnect(error);
+    this.handleConnectionError(error);
   }
 
   /**
    * Realiza la conexión al WebSocket
    */
   private async performConnection(): Promise<void> {
-    this.setConnectionState("connecting");
+    const signal = this.lifecycle?.controller.signal;
+    this.setConnectionState("connecting", `Connecting to ${this.channelName}`);
     this.log(`Connecting to channel: ${this.channelName}`);
 
     // Obtener información del canal
-    const channelInfo = await this.getChannelInfo(this.channelName);
-    this.channelId = channelInfo.chatroom.id;
+    const channel = await this.resolveChannel(this.channelTarget, signal);
+
+    // Un disconnect() o abort durante la resolución no debe dejar un socket
+    if (signal?.aborted) {
+      throw this.getAbortReason(signal);
+    }
+    this.channelName = channel.slug;
+    this.channelId = channel.chatroomId;
+    this.channels.set(this.channelId, {
+      channel: this.channelName,
+      chatroomId: this.channelId,
+    });
 
     // Construir URL del WebSocket
     const wsUrl = this.buildWebSocketUrl();
 
+    // Un socket anterior (p. ej. tras un error) se desacopla para que sus
+    // manejadores no actúen sobre la nueva conexión
+    if (this.ws) {
+      this.detachSocket(1000, "Superseded by a new connection");
+    }
+
     // Crear conexión WebSocket
-    this.ws = new WebSocket(wsUrl);
+    this.ws = this.options.webSocketFactory(wsUrl);
 
     // Configurar manejadores de eventos
     this.setupWebSocketHandlers();
@@ -150,7 +396,8 @@ export class WebSocketManager extends EventEmitter {
 
     this.ws.onopen = () => {
       this.log("WebSocket connection opened");
-      this.subscribeToChannel();
+      this.resetActivityTimer();
+      this.subscribeToChannels();
     };
 
     this.ws.onmessage = (event) => {
@@ -159,6 +406,9 @@ export class WebSocketManager extends EventEmitter {
 
     this.ws.onclose = (event) => {
       this.log(`WebSocket closed: ${event.code} - ${event.reason}`);
+      // Un socket cerrado no se conserva: un disconnect() posterior no debe
+      // volver a emitir disconnect
+      this.detachSocket();
       this.handleDisconnect(event.code, event.reason);
     };
 
@@ -169,64 +419,633 @@ export class WebSocketManager extends EventEmitter {
   }
 
   /**
-   * Se suscribe al canal del chat
+   * Se suscribe a todos los canales registrados en la conexión.
+   * El evento ready se emite al recibir la confirmación de cada canal.
    */
-  private subscribeToChannel(): void {
+  private subscribeToChannels(): void {
     if (!this.ws) return;
 
-    const subscribeMessage = {
-      event: "pusher:subscribe",
-      data: {
-        auth: "",
-        channel: `chatrooms.${this.channelId}.v2`,
-      },
+    this.channels.forEach((context) => {
+      this.sendChannelCommand("pusher:subscribe", context.chatroomId);
+    });
+  }
+
+  /**
+   * Procesa la confirmación de suscripción de un canal
+   */
+  private handleSubscriptionSucceeded(context: ChannelContext): void {
+    this.log(`Subscription confirmed: ${context.channel}`);
+
+    if (this.connectionState !== "connected") {
+      this.startSession();
+      this.setConnectionState("connected", `Subscribed to ${context.channel}`);
+      this.scheduleAttemptsReset();
+    }
+
+    this.emit("ready", { ...context }, context);
+
+    if (context.chatroomId === this.channelId) {
+      this.resolvePendingConnect();
+    }
+  }
+
+  /**
+   * Procesa un error de suscripción enviado por Pusher
+   */
+  private handleSubscriptionError(
+    context: ChannelContext,
+    data: unknown,
+  ): void {
+    const payload = this.decodePusherData(data);
+    const event: SubscriptionErrorEvent = {
+      channel: context.channel,
+      chatroomId: context.chatroomId,
+      type: typeof payload.type === "string" ? payload.type : undefined,
+      error: typeof payload.error === "string" ? payload.error : undefined,
+      status: typeof payload.status === "number" ? payload.status : undefined,
     };
 
-    this.ws.send(JSON.stringify(subscribeMessage));
-    this.log(`Subscribed to channel: chatrooms.${this.channelId}.v2`);
+    this.log(`Subscription error for ${context.channel}:`, payload);
+    this.emit("subscriptionError", event, context);
 
-    this.setConnectionState("connected");
-    this.emit("ready", { channel: this.channelName });
+    if (context.chatroomId === this.channelId) {
+      this.failPendingConnect(new SubscriptionError(event));
+    }
   }
 
   /**
-   * Maneja los mensajes recibidos del WebSocket
+   * Envía una suscripción o desuscripción de Pusher para un chatroom
+   */
+  private sendChannelCommand(
+    event: "pusher:subscribe" | "pusher:unsubscribe",
+    chatroomId: number,
+  ): void {
+    if (!this.ws) return;
+
+    const pusherChannel = this.getPusherChannelName(chatroomId);
+    this.ws.send(
+      JSON.stringify({
+        event,
+        data: { auth: "", channel: pusherChannel },
+      }),
+    );
+    this.log(`${event} sent for channel: ${pusherChannel}`);
+  }
+
+  /**
+   * Construye el nombre del canal de Pusher para un chatroom
+   */
+  private getPusherChannelName(chatroomId: number): string {
+    return `chatrooms.${chatroomId}.v2`;
+  }
+
+  /**
+   * Obtiene el contexto del canal a partir del nombre del canal de Pusher.
+   * Si el mensaje no indica canal se usa el canal principal; si indica uno
+   * que no está registrado (p. ej. tras switchChannel o removeChannel)
+   * devuelve null.
+   */
+  private getChannelContext(pusherChannel?: string): ChannelContext | null {
+    if (!pusherChannel) {
+      return this.getPrimaryContext();
+    }
+
+    const match = pusherChannel.match(/^chatrooms\.(\d+)\.v2$/);
+    return (match && this.channels.get(Number(match[1]))) || null;
+  }
+
+  /**
+   * Obtiene el contexto del canal principal
+   */
+  private getPrimaryContext(): ChannelContext {
+    return { channel: this.channelName, chatroomId: this.channelId };
+  }
+
+  /**
+   * Agrega un canal a la conexión actual sin abrir un nuevo socket
+   */
+  async addChannel(channel: ChannelTarget): Promise<ChannelContext> {
+    channel = this.normalizeTarget(channel);
+    const channelName = this.getTargetLabel(channel);
+    const existing = this.findChannel(channelName);
+    if (existing) {
+      return existing;
+    }
+
+    const signal = this.lifecycle?.controller.signal;
+    const resolved = await this.resolveChannel(channel, signal);
+    if (signal?.aborted) {
+      throw this.getAbortReason(signal);
+    }
+
+    const context: ChannelContext = {
+      channel: resolved.slug,
+      chatroomId: resolved.chatroomId,
+    };
+    this.channels.set(context.chatroomId, context);
+
+    // Si el socket aún no está abierto, la suscripción se envía al abrirse
+    if (this.ws?.readyState === this.WS_OPEN) {
+      this.sendChannelCommand("pusher:subscribe", context.chatroomId);
+    }
+
+    this.log(`Channel added: ${channelName} (${context.chatroomId})`);
+    return context;
+  }
+
+  /**
+   * Cambia el canal principal sobre el socket actual: se desuscribe del
+   * canal anterior y se suscribe al nuevo sin cerrar la conexión. La promesa
+   * se resuelve cuando Pusher confirma la nueva suscripción.
+   */
+  async switchChannel(channel: ChannelTarget): Promise<ChannelContext> {
+    channel = this.normalizeTarget(channel);
+
+    // Sin socket no hay nada que conservar: se conecta normalmente
+    if (!this.ws) {
+      const previous = this.channelId ? this.getPrimaryContext() : null;
+      await this.connect(channel);
+      const context = this.getPrimaryContext();
+      this.emit("channelChanged", { from: previous, to: context }, context);
+      return context;
+    }
+
+    const signal = this.lifecycle?.controller.signal;
+    const resolved = await this.resolveChannel(channel, signal);
+    if (signal?.aborted) {
+      throw this.getAbortReason(signal);
+    }
+
+    const from = this.getPrimaryContext();
+    if (resolved.chatroomId === from.chatroomId) {
+      return from;
+    }
+
+    const to: ChannelContext = this.channels.get(resolved.chatroomId) || {
+      channel: resolved.slug,
+      chatroomId: resolved.chatroomId,
+    };
+    const alreadySubscribed = this.channels.has(to.chatroomId);
+    const isOpen = this.ws.readyState === this.WS_OPEN;
+
+    this.channels.delete(from.chatroomId);
+    if (isOpen) {
+      this.sendChannelCommand("pusher:unsubscribe", from.chatroomId);
+    }
+
+    this.channels.set(to.chatroomId, to);
+    this.channelTarget = { chatroomId: to.chatroomId, slug: to.channel };
+    this.channelName = to.channel;
+    this.channelId = to.chatroomId;
+    this.log(`Switching channel: ${from.channel} -> ${to.channel}`);
+
+    // Si el socket aún no está abierto, la suscripción se envía al abrirse
+    if (!alreadySubscribed || !isOpen) {
+      const confirmation = this.waitForSubscription();
+      if (isOpen) {
+        this.sendChannelCommand("pusher:subscribe", to.chatroomId);
+      }
+      await confirmation;
+    }
+
+    // El historial registra el tiempo de conexión por canal
+    if (this.endSession(null)) {
+      this.startSession();
+    }
+
+    this.emit("channelChanged", { from, to }, to);
+    return to;
+  }
+
+  /**
+   * Sigue un host del canal principal cambiando al canal anfitrionado.
+   * `context` es el chatroom del propio frame: un host anunciado por un
+   * canal anterior (p. ej. un evento que esperaba en el middleware durante
+   * un switchChannel) no se sigue.
+   */
+  private followHost(data: StreamHostEvent, context: ChannelContext): void {
+    const target = data.hosted_channel;
+    if (
+      context.chatroomId !== this.channelId ||
+      !target ||
+      target === "unknown" ||
+      !ChannelIdentifier.isValid(target) ||
+      ChannelIdentifier.normalize(target) === this.channelName
+    ) {
+      return;
+    }
+
+    this.log(`Following host to channel: ${target}`);
+    this.switchChannel(target).catch((error) => {
+      this.log("Failed to follow host:", error);
+      this.emit("error", error, context);
+    });
+  }
+
+  /**
+   * Elimina un canal de la conexión actual
+   */
+  removeChannel(channelName: string): boolean {
+    const context =
+      this.findChannel(channelName) ||
+      (ChannelIdentifier.isValid(channelName)
+        ? this.findChannel(ChannelIdentifier.normalize(channelName))
+        : undefined);
+    if (!context) {
+      return false;
+    }
+
+    this.channels.delete(context.chatroomId);
+
+    if (this.ws?.readyState === this.WS_OPEN) {
+      this.sendChannelCommand("pusher:unsubscribe", context.chatroomId);
+    }
+
+    // Si era el canal principal, el siguiente canal pasa a ser el principal
+    if (context.chatroomId === this.channelId) {
+      const next = this.channels.values().next().value as
+        ChannelContext | undefined;
+      this.channelName = next?.channel ?? "";
+      this.channelId = next?.chatroomId ?? 0;
+      this.channelTarget = next
+        ? { chatroomId: next.chatroomId, slug: next.channel }
+        : "";
+    }
+
+    this.log(`Channel removed: ${channelName} (${context.chatroomId})`);
+    return true;
+  }
+
+  /**
+   * Busca un canal registrado por su nombre
+   */
+  private findChannel(channelName: string): ChannelContext | undefined {
+    for (const context of this.channels.values()) {
+      if (context.channel === channelName) {
+        return context;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Maneja los mensajes recibidos del WebSocket. El envoltorio de Pusher se
+   * decodifica una sola vez; el campo `data` solo se decodifica y normaliza
+   * si algún listener o middleware necesita el evento.
    */
   private handleMessage(rawMessage: string): void {
-    // Emitir mensaje raw primero
-    this.emit("rawMessage", rawMessage);
+    // Cualquier mensaje recibido cuenta como actividad de la conexión
+    this.resetActivityTimer();
+
+    const message = MessageParser.decodeFrame(rawMessage);
+    const context = message ? this.getChannelContext(message.channel) : null;
+
+    // Emitir mensaje raw primero, con su canal si se conoce
+    if (context) {
+      this.emit("rawMessage", rawMessage, context);
+    } else {
+      this.emit("rawMessage", rawMessage);
+    }
+    const parser = message
+      ? MessageParser.getEventParser(message.event)
+      : undefined;
 
     // Agregar al buffer si está habilitado
     if (this.options.enableBuffer) {
-      this.addToBuffer(rawMessage);
+      this.messageBuffer.add({
+        raw: rawMessage,
+        receivedAt: new Date(),
+        eventName: message?.event ?? null,
+        type: parser?.type ?? null,
+        channel: message?.channel ?? null,
+      });
+    }
+
+    if (!message) {
+      return;
+    }
+
+    // Los frames tardíos de un canal que ya no está registrado se descartan
+    // en lugar de atribuirse al canal principal
+    if (!context) {
+      this.log(
+        `Ignoring ${message.event} from unsubscribed ${message.channel}`,
+      );
+      return;
     }
 
     // Filtrar eventos de sistema de Pusher temprano
-    try {
-      const message = JSON.parse(rawMessage);
+    if (MessageParser.isPusherEvent(message.event)) {
+      this.handlePusherEvent(message, context);
+      return;
+    }
+
+    if (!parser) {
+      this.handleUnknownEvent(
+        message.event,
+        message.channel,
+        message.data,
+        context,
+      );
+      return;
+    }
+
+    // Verificar si el evento está filtrado
+    if (this.isEventFiltered(parser.type)) {
+      this.log(`Event filtered: ${parser.type}`);
+      return;
+    }
+
+    if (!this.isEventNeeded(parser.type)) {
+      return;
+    }
+
+    // Parsear el mensaje
+    const parsedMessage = MessageParser.parseFrame(message);
+    if (parsedMessage) {
       if (
-        message.event?.startsWith("pusher:") ||
-        message.event?.startsWith("pusher_internal:")
+        this.eventFilter &&
+        !this.eventFilter.matches(parsedMessage.type, parsedMessage.data)
       ) {
-        this.log(`Ignoring Pusher system event: ${message.event}`);
+        this.log(`Event rejected by filter: ${parsedMessage.type}`);
         return;
       }
-    } catch (e) {
-      // Si no es JSON válido, continuamos con el procesamiento normal
+
+      this.log(`Parsed event: ${parsedMessage.type} (${context.channel})`);
+      this.processEvent({
+        type: parsedMessage.type,
+        data: parsedMessage.data,
+        raw: rawMessage,
+        context,
+      } as MiddlewareEvent);
     }
+  }
 
-    // Verificar si el evento está filtrado
-    const eventType = MessageParser.extractEventType(rawMessage);
-    if (eventType && this.isEventFiltered(eventType)) {
-      this.log(`Event filtered: ${eventType}`);
+  /**
+   * Indica si alguien consume un tipo de evento: listeners (directos o por
+   * patrón), middleware o el seguimiento de hosts
+   */
+  private isEventNeeded(type: keyof EventDataMap): boolean {
+    return (
+      this.middlewares.length > 0 ||
+      this.hasListeners(type) ||
+      (this.options.followHosts && type === "StreamHost")
+    );
+  }
+
+  /**
+   * Registra un middleware que se ejecuta, en orden de registro, entre el
+   * parseo y la emisión de cada evento. Devuelve una función para quitarlo.
+   */
+  use(middleware: Middleware): () => void {
+    this.middlewares.push(middleware);
+    return () => {
+      this.middlewares = this.middlewares.filter((m) => m !== middleware);
+    };
+  }
+
+  /**
+   * Pasa un evento por el middleware. Sin middleware se emite de forma
+   * síncrona; con él, los eventos se procesan en serie para conservar el orden.
+   */
+  private processEvent(event: MiddlewareEvent): void {
+    if (this.middlewares.length === 0) {
+      this.dispatchEvent(event);
       return;
     }
 
-    // Parsear el mensaje
-    const parsedMessage = MessageParser.parseMessage(rawMessage);
-    if (parsedMessage) {
-      this.log(`Parsed event: ${parsedMessage.type}`);
-      this.emit(parsedMessage.type, parsedMessage.data);
+    const middlewares = this.middlewares.slice();
+    const generation = this.generation;
+    this.middlewareQueue = this.middlewareQueue
+      .then(() => this.runMiddleware(middlewares, 0, event, generation))
+      .catch((error) => this.log("Middleware pipeline error:", error));
+  }
+
+  /**
+   * Ejecuta el middleware `index` de la cadena. Un middleware que falla se
+   * notifica con un MiddlewareError en `error` y, si no llegó a llamar a
+   * next(), el evento continúa por la cadena.
+   */
+  private async runMiddleware(
+    middlewares: Middleware[],
+    index: number,
+    event: MiddlewareEvent,
+    generation: number,
+  ): Promise<void> {
+    // La conexión se cerró mientras el evento esperaba en la cola
+    if (generation !== this.generation) {
+      return;
+    }
+
+    if (index >= middlewares.length) {
+      this.dispatchEvent(event);
+      return;
+    }
+
+    let calledNext = false;
+    const next = (replacement?: MiddlewareEvent) => {
+      calledNext = true;
+      return this.runMiddleware(
+        middlewares,
+        index + 1,
+        replacement || event,
+        generation,
+      );
+    };
+
+    try {
+      await middlewares[index](event, next);
+    } catch (error) {
+      this.emit("error", new MiddlewareError(error, event.type));
+      if (!calledNext) {
+        await next();
+      }
+    }
+  }
+
+  /**
+   * Emite un evento ya procesado
+   */
+  private dispatchEvent(event: MiddlewareEvent): void {
+    this.emit(event.type, event.data, event.context);
+
+    if (this.options.followHosts && event.type === "StreamHost") {
+      this.followHost(event.data as StreamHostEvent, event.context);
+    }
+  }
+
+  /**
+   * Procesa los eventos de sistema de Pusher
+   */
+  private handlePusherEvent(
+    message: { event: string; data?: unknown },
+    context: ChannelContext,
+  ): void {
+    switch (message.event) {
+      case "pusher_internal:subscription_succeeded":
+        this.handleSubscriptionSucceeded(context);
+        break;
+
+      case "pusher:subscription_error":
+        this.handleSubscriptionError(context, message.data);
+        break;
+
+      case "pusher:connection_established": {
+        const data = this.decodePusherData(message.data);
+        this.socketId =
+          typeof data.socket_id === "string" ? data.socket_id : null;
+        if (typeof data.activity_timeout === "number") {
+          this.serverActivityTimeout = data.activity_timeout * 1000;
+          this.resetActivityTimer();
+        }
+        this.log(`Pusher connection established, socket id: ${this.socketId}`);
+        break;
+      }
+
+      case "pusher:ping":
+        this.sendPusherEvent("pusher:pong");
+        break;
+
+      case "pusher:pong":
+        // La actividad ya se registró al recibir el mensaje
+        break;
+
+      case "pusher:error":
+        this.handlePusherError(message.data);
+        break;
+
+      default:
+        this.log(`Ignoring Pusher system event: ${message.event}`);
+    }
+  }
+
+  /**
+   * Procesa un frame pusher:error. Los códigos 4000-4299 indican que el
+   * servidor va a cerrar la conexión, así que se cierra y se actúa según
+   * su categoría.
+   */
+  private handlePusherError(data: unknown): void {
+    const payload = this.decodePusherData(data);
+    const code = typeof payload.code === "number" ? payload.code : null;
+    const message =
+      typeof payload.message === "string" && payload.message
+        ? payload.message
+        : "Unknown error";
+
+    this.log(`Pusher error received: ${code} - ${message}`);
+    this.emit("error", new PusherError(message, code));
+
+    if (code !== null && code >= 4000 && code <= 4299 && this.ws) {
+      this.detachSocket();
+      this.handleDisconnect(code, message);
+    }
+  }
+
+  /**
+   * Decodifica el campo data de un evento de Pusher (puede venir como
+   * string JSON). Si no es JSON se devuelve el valor original.
+   */
+  private decodeEventData(data: unknown): unknown {
+    if (typeof data !== "string") return data;
+    try {
+      return JSON.parse(data);
+    } catch {
+      return data;
+    }
+  }
+
+  /**
+   * Decodifica el campo data de un evento de Pusher como objeto; vacío si
+   * no lo es
+   */
+  private decodePusherData(data: unknown): Record<string, unknown> {
+    const decoded = this.decodeEventData(data);
+    return decoded && typeof decoded === "object"
+      ? (decoded as Record<string, unknown>)
+      : {};
+  }
+
+  /**
+   * Envía un evento de sistema de Pusher sin datos
+   */
+  private sendPusherEvent(event: "pusher:ping" | "pusher:pong"): void {
+    if (this.ws?.readyState !== this.WS_OPEN) return;
+
+    this.ws.send(JSON.stringify({ event, data: {} }));
+    this.log(`${event} sent`);
+  }
+
+  /**
+   * Reinicia el temporizador de inactividad. Si no llega ningún mensaje
+   * antes de que expire, se envía un ping y se espera el pong.
+   */
+  private resetActivityTimer(): void {
+    this.lastActivityAt = Date.now();
+    this.stopHeartbeat();
+
+    if (!this.ws) return;
+
+    const timeout = Math.min(
+      this.options.activityTimeout,
+      this.serverActivityTimeout ?? Infinity,
+    );
+
+    this.activityTimer = setTimeout(() => {
+      this.activityTimer = null;
+      this.sendPusherEvent("pusher:ping");
+
+      this.pongTimer = setTimeout(() => {
+        this.pongTimer = null;
+        this.handleDeadConnection();
+      }, this.options.pongTimeout) as unknown as number;
+    }, timeout) as unknown as number;
+  }
+
+  /**
+   * Detiene los temporizadores de keepalive
+   */
+  private stopHeartbeat(): void {
+    if (this.activityTimer) {
+      clearTimeout(this.activityTimer);
+      this.activityTimer = null;
+    }
+
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+  }
+
+  /**
+   * Cierra una conexión que no respondió al ping y la trata como caída
+   */
+  private handleDeadConnection(): void {
+    if (!this.ws) return;
+
+    this.log("Pong not received, closing dead connection");
+    this.detachSocket();
+    this.handleDisconnect(4201, "Pong reply not received");
+  }
+
+  /**
+   * Desacopla y cierra el socket actual para que su cierre tardío
+   * no se procese dos veces
+   */
+  private detachSocket(code?: number, reason?: string): void {
+    const ws = this.ws;
+    if (!ws) return;
+
+    ws.onopen = null;
+    ws.onmessage = null;
+    ws.onclose = null;
+    ws.onerror = null;
+    this.ws = null;
+    this.stopHeartbeat();
+
+    try {
+      ws.close(code, reason);
+    } catch {
+      // El socket ya puede estar cerrado
     }
   }
 
@@ -234,14 +1053,30 @@ export class WebSocketManager extends EventEmitter {
    * Exporta el buffer de mensajes raw
    */
   exportRawMessages(): string[] {
-    return [...this.messageBuffer];
+    return this.messageBuffer.getMessages().map((entry) => entry.raw);
+  }
+
+  /**
+   * Exporta las entradas del buffer con su fecha de recepción, evento,
+   * tipo y canal
+   */
+  exportBufferedMessages(): BufferedMessage[] {
+    return this.messageBuffer.getMessages();
+  }
+
+  /**
+   * Busca eventos parseados en el buffer por tipo, remitente, fechas o
+   * contenido. Cada resultado incluye su frame raw.
+   */
+  query(options: BufferQueryOptions = {}): BufferedEvent[] {
+    return this.messageBuffer.query(options);
   }
 
   /**
    * Exporta un rango de mensajes raw del buffer
    */
   exportRawMessagesInRange(startIndex: number, endIndex?: number): string[] {
-    const buffer = [...this.messageBuffer];
+    const buffer = this.exportRawMessages();
     return endIndex
       ? buffer.slice(startIndex, endIndex)
       : buffer.slice(startIndex);
@@ -250,21 +1085,15 @@ export class WebSocketManager extends EventEmitter {
   /**
    * Exporta mensajes raw filtrados por tipo de evento
    */
-  exportRawMessagesByEventType(eventType: KickEventType): string[] {
-    return this.messageBuffer.filter((message) => {
-      const parsed = MessageParser.parseMessage(message);
-      return parsed && parsed.type === eventType;
-    });
+  exportRawMessagesByEventType(eventType: keyof EventDataMap): string[] {
+    return this.messageBuffer.getRawByType(eventType);
   }
 
   /**
    * Limpia mensajes raw del buffer por tipo de evento
    */
-  clearRawMessagesByEventType(eventType: KickEventType): void {
-    this.messageBuffer = this.messageBuffer.filter((message) => {
-      const parsed = MessageParser.parseMessage(message);
-      return !(parsed && parsed.type === eventType);
-    });
+  clearRawMessagesByEventType(eventType: keyof EventDataMap): void {
+    this.messageBuffer.removeType(eventType);
   }
 
   /**
@@ -276,160 +1105,442 @@ export class WebSocketManager extends EventEmitter {
     oldestTimestamp?: Date;
     newestTimestamp?: Date;
   } {
-    const stats = {
-      total: this.messageBuffer.length,
-      byType: {} as Record<string, number>,
-      oldestTimestamp: undefined as Date | undefined,
-      newestTimestamp: undefined as Date | undefined,
-    };
-
-    this.messageBuffer.forEach((message) => {
-      try {
-        const parsed = MessageParser.parseMessage(message);
-        if (parsed) {
-          stats.byType[parsed.type] = (stats.byType[parsed.type] || 0) + 1;
-        }
-      } catch (e) {
-        // Ignorar errores al parsear para estadísticas
-      }
-    });
-
-    return stats;
+    return this.messageBuffer.getStats();
   }
 
   /**
-   * Agrega un mensaje al buffer
+   * Indica si un evento de Kick debe descartarse según includeEvents
+   * (o el antiguo filteredEvents) y excludeEvents
    */
-  private addToBuffer(message: string): void {
-    this.messageBuffer.push(message);
+  private isEventFiltered(eventType: keyof EventDataMap): boolean {
+    const { includeEvents, excludeEvents, filteredEvents } = this.options;
+    const included = includeEvents.length > 0 ? includeEvents : filteredEvents;
 
-    // Mantener el tamaño del buffer
-    if (this.messageBuffer.length > this.options.bufferSize) {
-      this.messageBuffer.shift();
-    }
+    return (
+      (included.length > 0 && !included.includes(eventType)) ||
+      excludeEvents.includes(eventType)
+    );
   }
 
   /**
-   * Verifica si un evento está filtrado
+   * Notifica un evento de Pusher sin parser registrado y lo contabiliza
    */
-  private isEventFiltered(eventType: string): boolean {
-    if (this.options.filteredEvents.length === 0) {
-      return false;
+  private handleUnknownEvent(
+    eventName: string,
+    pusherChannel: string | undefined,
+    data: unknown,
+    context: ChannelContext,
+  ): void {
+    this.unknownEventCounts.set(
+      eventName,
+      (this.unknownEventCounts.get(eventName) || 0) + 1,
+    );
+    this.log(`Unknown event: ${eventName}`);
+
+    if (!this.hasListeners("unknownEvent")) {
+      return;
     }
 
-    // Mapear eventos de Kick.com a tipos estándar
-    const eventTypeMap: { [key: string]: KickEventType } = {
-      "App\\Events\\ChatMessageEvent": "ChatMessage",
-      "App\\Events\\MessageDeletedEvent": "MessageDeleted",
-      "App\\Events\\UserBannedEvent": "UserBanned",
-      "App\\Events\\UserUnbannedEvent": "UserUnbanned",
-      "App\\Events\\SubscriptionEvent": "Subscription",
-      "App\\Events\\GiftedSubscriptionsEvent": "GiftedSubscriptions",
-      "App\\Events\\PinnedMessageCreatedEvent": "PinnedMessageCreated",
-      "App\\Events\\StreamHostEvent": "StreamHost",
-      "App\\Events\\PollUpdateEvent": "PollUpdate",
-      "App\\Events\\PollDeleteEvent": "PollDelete",
+    const unknownEvent: UnknownEvent = {
+      event: eventName,
+      channel: pusherChannel ?? null,
+      data: this.decodeEventData(data),
     };
+    this.emit("unknownEvent", unknownEvent, context);
+  }
 
-    const standardEventType = eventTypeMap[eventType];
-    return standardEventType
-      ? !this.options.filteredEvents.includes(standardEventType)
-      : false;
+  /**
+   * Compila el filtro declarativo de las opciones
+   */
+  private compileEventFilter(): EventFilter | null {
+    return this.options.eventFilter
+      ? new EventFilter(this.options.eventFilter)
+      : null;
   }
 
   /**
    * Maneja la desconexión
    */
   private handleDisconnect(code: number, reason: string): void {
-    this.setConnectionState("disconnected");
-    this.emit("disconnect", { code, reason });
-
-    // Reconexión automática si no es desconexión manual
-    if (this.options.autoReconnect && !this.isManualDisconnect) {
-      this.scheduleReconnect();
+    this.stopHeartbeat();
+    this.socketId = null;
+    this.serverActivityTimeout = null;
+    this.clearStableTimer();
+    const error = new ConnectionClosedError(code, reason);
+    this.rejectPendingConnect(error);
+    const category = this.isManualDisconnect
+      ? "manual"
+      : this.classifyCloseCode(code);
+    const canReconnect =
+      this.options.autoReconnect &&
+      category !== "manual" &&
+      category !== "fatal";
+    const willReconnect = canReconnect && this.shouldAttemptReconnect(error);
+
+    const event: DisconnectEvent = { code, reason, category, willReconnect };
+    this.endSession(event);
+    this.setConnectionState("disconnected", error.message);
+
+    this.emit("disconnect", event, this.getPrimaryContext());
+
+    if (willReconnect) {
+      this.scheduleReconnect(error, category === "immediate");
+    } else if (
+      this.options.autoReconnect &&
+      (canReconnect || category === "fatal")
+    ) {
+      // Sin autoReconnect no hay reconexión a la que renunciar
+      this.giveUpReconnect(error);
     }
   }
 
+  /**
+   * Clasifica un código de cierre según los rangos definidos por Pusher
+   */
+  private classifyCloseCode(code: number): DisconnectCategory {
+    if (code >= 4000 && code <= 4099) return "fatal";
+    if (code >= 4100 && code <= 4199) return "backoff";
+    if (code >= 4200 && code <= 4299) return "immediate";
+    return "transient";
+  }
+
   /**
    * Maneja errores de conexión
    */
   private handleConnectionError(error: Error): void {
-    this.setConnectionState("error");
+    this.setConnectionState("error", error.message);
     this.emit("error", error);
 
     if (this.options.autoReconnect && !this.isManualDisconnect) {
-      this.scheduleReconnect();
+      if (this.shouldAttemptReconnect(error)) {
+        this.scheduleReconnect(error);
+      } else {
+        this.giveUpReconnect(error);
+      }
     }
   }
 
   /**
-   * Programa una reconexión
+   * Consulta la política de reconexión para el siguiente intento
    */
-  private scheduleReconnect(): void {
-    if (this.reconnectTimer) {
-      clearTimeout(this.reconnectTimer);
-    }
+  private shouldAttemptReconnect(error: Error): boolean {
+    const policy = this.getReconnectPolicy();
+    const attempt = this.reconnectAttempts + 1;
+
+    return (
+      attempt <= policy.maxAttempts && policy.shouldReconnect(error, attempt)
+    );
+  }
+
+  /**
+   * Notifica que no se volverá a intentar la reconexión
+   */
+  private giveUpReconnect(error: Error): void {
+    this.log(`Giving up after ${this.reconnectAttempts} reconnect attempts`);
+    this.emit("reconnectFailed", {
+      attempts: this.reconnectAttempts,
+      error,
+    });
+  }
 
-    this.setConnectionState("reconnecting");
-    this.log(`Scheduling reconnect in ${this.options.reconnectInterval}ms`);
+  /**
+   * Programa una reconexión según la política de reconexión
+   */
+  private scheduleReconnect(error: Error, immediate = false): void {
+    this.clearReconnectTimer();
+
+    const policy = this.getReconnectPolicy();
+    const attempt = ++this.reconnectAttempts;
+    const delay = immediate ? 0 : this.computeReconnectDelay(policy, attempt);
+
+    this.setConnectionState(
+      "reconnecting",
+      `Reconnect attempt ${attempt} in ${delay}ms`,
+    );
+    this.log(`Scheduling reconnect attempt ${attempt} in ${delay}ms`);
+    this.emit("reconnecting", { attempt, delay, error });
 
     this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
       this.log("Attempting to reconnect...");
       this.performConnection().catch((error) => {
+        // Una reconexión cancelada no debe programar otra
+        if (this.isManualDisconnect) return;
         this.log("Reconnection failed:", error);
+        this.handleConnectionError(error as Error);
       });
-    }, this.options.reconnectInterval) as unknown as number;
+    }, delay) as unknown as number;
   }
 
   /**
-   * Desconecta manualmente
+   * Combina la política de reconexión configurada con los valores por defecto
    */
-  disconnect(): void {
-    this.isManualDisconnect = true;
+  private getReconnectPolicy(): Required<ReconnectPolicy> {
+    return {
+      initialDelay: this.options.reconnectInterval,
+      maxDelay: 60000,
+      multiplier: 2,
+      jitter: true,
+      maxAttempts: Infinity,
+      resetAfter: 30000,
+      shouldReconnect: () => true,
+      ...this.options.reconnectPolicy,
+    };
+  }
 
+  /**
+   * Calcula el retardo de un intento con backoff exponencial y full jitter
+   */
+  private computeReconnectDelay(
+    policy: Required<ReconnectPolicy>,
+    attempt: number,
+  ): number {
+    const delay = Math.min(
+      policy.maxDelay,
+      policy.initialDelay * Math.pow(policy.multiplier, attempt - 1),
+    );
+
+    return Math.round(policy.jitter ? Math.random() * delay : delay);
+  }
+
+  /**
+   * Reinicia el contador de intentos cuando la conexión se mantiene estable
+   */
+  private scheduleAttemptsReset(): void {
+    this.clearStableTimer();
+
+    if (this.reconnectAttempts === 0) return;
+
+    this.stableTimer = setTimeout(() => {
+      this.stableTimer = null;
+      this.log("Connection stable, resetting reconnect attempts");
+      this.reconnectAttempts = 0;
+    }, this.getReconnectPolicy().resetAfter) as unknown as number;
+  }
+
+  /**
+   * Cancela el reinicio pendiente del contador de intentos
+   */
+  private clearStableTimer(): void {
+    if (this.stableTimer) {
+      clearTimeout(this.stableTimer);
+      this.stableTimer = null;
+    }
+  }
+
+  /**
+   * Cancela la reconexión programada
+   */
+  private clearReconnectTimer(): void {
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
     }
+  }
 
+  /**
+   * Desconecta manualmente
+   */
+  disconnect(): void {
+    this.teardown(new AbortError("Manual disconnect"));
+  }
+
+  /**
+   * Cancela la conexión en curso, las reconexiones pendientes y las
+   * peticiones de resolución, rechazando connect() con el error indicado
+   */
+  private teardown(reason: Error): void {
+    this.isManualDisconnect = true;
+    this.generation++;
+    this.endLifecycle(reason);
+    this.stopHeartbeat();
+    this.clearStableTimer();
+    this.clearReconnectTimer();
+
+    this.rejectPendingConnect(reason);
+
+    // El socket se desacopla para que su cierre tardío no afecte a una
+    // conexión posterior; el evento disconnect se emite aquí mismo
     if (this.ws) {
-      this.ws.close(1000, "Manual disconnect");
-      this.ws = null;
+      this.detachSocket(1000, "Manual disconnect");
+      this.handleDisconnect(1000, "Manual disconnect");
     }
 
-    this.setConnectionState("disconnected");
+    this.channels.clear();
+    this.setConnectionState("disconnected", reason.message);
+    this.iterators.forEach((iterator) => iterator.close());
     this.log("Manual disconnect completed");
   }
 
   /**
-   * Obtiene información del canal
+   * Resuelve un canal a su chatroom. Los chatrooms indicados directamente
+   * no necesitan consulta HTTP.
    */
-  private async getChannelInfo(channelName: string): Promise<KickChannel> {
-    const url = `https://kick.com/api/v2/channels/${channelName}`;
+  private async resolveChannel(
+    channel: ChannelTarget,
+    signal?: AbortSignal,
+  ): Promise<ResolvedChannel> {
+    if (typeof channel !== "string") {
+      return {
+        slug: this.getTargetLabel(channel),
+        chatroomId: channel.chatroomId,
+      };
+    }
 
     try {
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const data = (await response.json()) as KickChannel;
-      return data;
+      return await this.options.channelResolver.resolve(channel, { signal });
     } catch (error) {
+      if (signal?.aborted) {
+        throw this.getAbortReason(signal);
+      }
       this.log("Error fetching channel info:", error);
       throw new Error(
-        `Failed to fetch channel info for ${channelName}: ${String(error)}`,
+        `Failed to fetch channel info for ${channel}: ${String(error)}`,
       );
     }
   }
 
+  /**
+   * Inicia un nuevo ciclo de vida cancelable enlazado a las señales de
+   * connect() y de las opciones. Lanza AbortError si alguna ya está abortada.
+   */
+  private startLifecycle(signal?: AbortSignal): AbortSignal {
+    const signals = [signal, this.options.signal].filter(
+      (s): s is AbortSignal => !!s,
+    );
+    if (signals.some((s) => s.aborted)) {
+      throw new AbortError("Connection aborted");
+    }
+
+    this.endLifecycle(new AbortError("Superseded by a new connection"));
+    // Una reconexión programada por la conexión anterior crearía un socket
+    // paralelo al de esta
+    this.clearReconnectTimer();
+
+    const controller = new AbortController();
+    const onAbort = () => {
+      this.log("Connection aborted by signal");
+      this.teardown(new AbortError("Connection aborted"));
+    };
+    signals.forEach((s) => s.addEventListener("abort", onAbort));
+
+    this.lifecycle = {
+      controller,
+      cleanup: () =>
+        signals.forEach((s) => s.removeEventListener("abort", onAbort)),
+    };
+    return controller.signal;
+  }
+
+  /**
+   * Termina el ciclo de vida actual abortando sus peticiones en curso
+   */
+  private endLifecycle(reason: Error): void {
+    const lifecycle = this.lifecycle;
+    if (!lifecycle) return;
+
+    this.lifecycle = null;
+    lifecycle.cleanup();
+    lifecycle.controller.abort(reason);
+  }
+
+  /**
+   * Obtiene el error con el que se abortó una señal
+   */
+  private getAbortReason(signal: AbortSignal): Error {
+    return signal.reason instanceof Error
+      ? signal.reason
+      : new AbortError("Connection aborted");
+  }
+
+  /**
+   * Normaliza el slug de un canal (URLs, mayúsculas, espacios).
+   * Lanza InvalidChannelError si no es válido.
+   */
+  private normalizeTarget(channel: ChannelTarget): ChannelTarget {
+    return typeof channel === "string"
+      ? ChannelIdentifier.normalize(channel)
+      : channel;
+  }
+
+  /**
+   * Nombre con el que se identifica un canal en eventos y estadísticas
+   */
+  private getTargetLabel(channel: ChannelTarget): string {
+    if (typeof channel === "string") {
+      return channel;
+    }
+    return channel.slug ?? String(channel.chatroomId);
+  }
+
   /**
    * Establece el estado de conexión
    */
-  private setConnectionState(state: ConnectionState): void {
+  private setConnectionState(state: ConnectionState, reason?: string): void {
     const oldState = this.connectionState;
     this.connectionState = state;
     this.log(`Connection state changed: ${oldState} -> ${state}`);
+
+    if (oldState !== state) {
+      const event: StateChangeEvent = {
+        from: oldState,
+        to: state,
+        at: new Date(),
+        reason,
+      };
+      this.emit("stateChange", event);
+    }
+  }
+
+  /**
+   * Abre una sesión en el historial para el canal principal
+   */
+  private startSession(): void {
+    this.connectionHistory.push({
+      channel: this.channelName,
+      chatroomId: this.channelId,
+      connectedAt: Date.now(),
+      disconnectedAt: null,
+      reconnectAttempts: this.reconnectAttempts,
+      disconnect: null,
+    });
+
+    const overflow =
+      this.connectionHistory.length - Math.max(1, this.options.historySize);
+    if (overflow > 0) {
+      this.connectionHistory.splice(0, overflow);
+    }
+  }
+
+  /**
+   * Cierra la sesión activa del historial. Devuelve false si no había ninguna.
+   */
+  private endSession(disconnect: DisconnectEvent | null): boolean {
+    const session = this.connectionHistory[this.connectionHistory.length - 1];
+    if (!session || session.disconnectedAt !== null) return false;
+
+    session.disconnectedAt = Date.now();
+    session.disconnect = disconnect;
+    return true;
+  }
+
+  /**
+   * Obtiene el historial de sesiones de conexión, de la más antigua a la más reciente
+   */
+  getConnectionHistory(): ConnectionHistoryEntry[] {
+    const now = Date.now();
+    return this.connectionHistory.map((session) => ({
+      channel: session.channel,
+      chatroomId: session.chatroomId,
+      connectedAt: new Date(session.connectedAt),
+      disconnectedAt:
+        session.disconnectedAt !== null
+          ? new Date(session.disconnectedAt)
+          : null,
+      duration: (session.disconnectedAt ?? now) - session.connectedAt,
+      reconnectAttempts: session.reconnectAttempts,
+      disconnect: session.disconnect ? { ...session.disconnect } : null,
+    }));
   }
 
   /**
@@ -447,8 +1558,19 @@ export class WebSocketManager extends EventEmitter {
   override on<K extends keyof EventDataMap>(
     event: K,
     handler: EventHandler<EventDataMap[K]>,
+    options?: ListenerOptions,
+  ): void;
+  override on(
+    pattern: EventPattern,
+    handler: PatternEventHandler,
+    options?: ListenerOptions,
+  ): void;
+  override on(
+    event: string,
+    handler: Function,
+    options: ListenerOptions = {},
   ): void {
-    super.on(event, handler as EventHandler<unknown>);
+    super.on(event, handler, options);
   }
 
   /**
@@ -457,8 +1579,19 @@ export class WebSocketManager extends EventEmitter {
   override once<K extends keyof EventDataMap>(
     event: K,
     handler: EventHandler<EventDataMap[K]>,
+    options?: ListenerOptions,
+  ): void;
+  override once(
+    pattern: EventPattern,
+    handler: PatternEventHandler,
+    options?: ListenerOptions,
+  ): void;
+  override once(
+    event: string,
+    handler: Function,
+    options: ListenerOptions = {},
   ): void {
-    super.once(event, handler as EventHandler<unknown>);
+    super.once(event, handler, options);
   }
 
   /**
@@ -467,8 +1600,42 @@ export class WebSocketManager extends EventEmitter {
   override off<K extends keyof EventDataMap>(
     event: K,
     handler: EventHandler<EventDataMap[K]>,
-  ): void {
-    super.off(event, handler as EventHandler<unknown>);
+  ): void;
+  override off(pattern: EventPattern, handler: PatternEventHandler): void;
+  override off(event: string, handler: Function): void {
+    super.off(event, handler);
+  }
+
+  /**
+   * Espera la próxima emisión de un evento, con su payload tipado
+   */
+  override waitFor<K extends keyof EventDataMap>(
+    event: K,
+    options: WaitForOptions<EventDataMap[K]> = {},
+  ): Promise<EventDataMap[K]> {
+    return super.waitFor(event, options);
+  }
+
+  /**
+   * Emite un evento con la forma `(data, context)` de los EventHandler, de
+   * modo que el control de propagación llegue siempre en tercera posición a
+   * los listeners que lo piden
+   */
+  override emit(
+    event: string,
+    ...args: [data?: unknown, context?: ChannelContext]
+  ): boolean {
+    return this.deliver(event, args, 2);
+  }
+
+  /**
+   * Agrupa los eventos de Kick por namespace ("chat:*", "user:*"...)
+   */
+  protected override getEventNamespaces(event: string): string[] {
+    const namespace =
+      KICK_EVENT_NAMESPACES[event as KickEventType] ??
+      MessageParser.getEventNamespace(event as keyof EventDataMap);
+    return namespace ? [namespace] : [];
   }
 
   /**
@@ -546,19 +1713,73 @@ export class WebSocketManager extends EventEmitter {
   /**
    * Helper method: Escucha cuando la conexión está lista
    */
-  onReady(handler: EventHandler<{ channel: string }>): void {
+  onReady(handler: EventHandler<EventDataMap["ready"]>): void {
     this.on("ready", handler);
   }
 
+  /**
+   * Helper method: Escucha errores de suscripción
+   */
+  onSubscriptionError(handler: EventHandler<SubscriptionErrorEvent>): void {
+    this.on("subscriptionError", handler);
+  }
+
+  /**
+   * Helper method: Escucha intentos de reconexión
+   */
+  onReconnecting(handler: EventHandler<ReconnectingEvent>): void {
+    this.on("reconnecting", handler);
+  }
+
+  /**
+   * Helper method: Escucha cuando se agotan los intentos de reconexión
+   */
+  onReconnectFailed(handler: EventHandler<ReconnectFailedEvent>): void {
+    this.on("reconnectFailed", handler);
+  }
+
+  /**
+   * Helper method: Escucha cambios del canal principal
+   */
+  onChannelChanged(handler: EventHandler<ChannelChangedEvent>): void {
+    this.on("channelChanged", handler);
+  }
+
   /**
    * Helper method: Escucha desconexiones
    */
-  onDisconnect(
-    handler: EventHandler<{ code?: number; reason?: string }>,
-  ): void {
+  onDisconnect(handler: EventHandler<DisconnectEvent>): void {
     this.on("disconnect", handler);
   }
 
+  /**
+   * Helper method: Escucha cambios del estado de conexión
+   */
+  onStateChange(handler: EventHandler<StateChangeEvent>): void {
+    this.on("stateChange", handler);
+  }
+
+  /**
+   * Helper method: Escucha errores lanzados por otros listeners
+   */
+  onListenerError(handler: EventHandler<ListenerErrorEvent>): void {
+    this.on("listenerError", handler);
+  }
+
+  /**
+   * Helper method: Escucha eventos de Pusher que la librería no sabe parsear
+   */
+  onUnknownEvent(handler: EventHandler<UnknownEvent>): void {
+    this.on("unknownEvent", handler);
+  }
+
+  /**
+   * Helper method: Escucha avisos de posibles leaks de listeners
+   */
+  onWarning(handler: EventHandler<MaxListenersExceededWarning>): void {
+    this.on("warning", handler);
+  }
+
   /**
    * Helper method: Escucha errores
    */
@@ -573,13 +1794,100 @@ export class WebSocketManager extends EventEmitter {
     this.on("rawMessage", handler);
   }
 
+  /**
+   * Itera de forma asíncrona sobre un tipo de evento. El iterador termina
+   * con disconnect(), al abortarse `signal` o al salir del bucle.
+   */
+  events<K extends keyof EventDataMap>(
+    event: K,
+    options: EventIteratorOptions = {},
+  ): EventIterator<EventDataMap[K]> {
+    return this.createIterator<EventDataMap[K]>((push) => {
+      const handler = (data: EventDataMap[K]) => push(data);
+      this.on(event, handler);
+      return () => this.off(event, handler);
+    }, options);
+  }
+
+  /**
+   * Itera de forma asíncrona sobre varios tipos de evento, entregando
+   * `{ type, data, context }`
+   */
+  stream<K extends keyof EventDataMap>(
+    events: K[],
+    options: EventIteratorOptions = {},
+  ): EventIterator<StreamEvent<K>> {
+    return this.createIterator<StreamEvent<K>>((push) => {
+      const handlers = events.map((type) => {
+        const handler = (data: EventDataMap[K], context?: ChannelContext) =>
+          push({ type, data, context });
+        this.on(type, handler);
+        return () => this.off(type, handler);
+      });
+      return () => handlers.forEach((remove) => remove());
+    }, options);
+  }
+
+  /**
+   * Expone varios tipos de evento como un ReadableStream. Los eventos solo
+   * se extraen de la cola cuando el consumidor tiene capacidad
+   * (`desiredSize` > 0); mientras tanto se aplica la política de
+   * desbordamiento de la cola.
+   */
+  toReadableStream<K extends keyof EventDataMap>(
+    events: K[],
+    options: EventStreamOptions = {},
+  ): ReadableStream<StreamEvent<K>> {
+    const { highWaterMark = 1, ...iteratorOptions } = options;
+    const iterator = this.stream(events, iteratorOptions);
+
+    return new ReadableStream<StreamEvent<K>>(
+      {
+        async pull(controller) {
+          const result = await iterator.next();
+          if (result.done) {
+            controller.close();
+          } else {
+            controller.enqueue(result.value);
+          }
+        },
+        async cancel() {
+          await iterator.return();
+        },
+      },
+      new CountQueuingStrategy({ highWaterMark }),
+    );
+  }
+
+  /**
+   * Crea un iterador registrado para cerrarse con disconnect()
+   */
+  private createIterator<T>(
+    subscribe: (push: (value: T) => void) => () => void,
+    options: EventIteratorOptions,
+  ): EventIterator<T> {
+    let iterator: EventIterator<T> | null = null;
+    iterator = new EventIterator<T>((push) => {
+      const unsubscribe = subscribe(push);
+      return () => {
+        unsubscribe();
+        this.iterators.delete(iterator as EventIterator<unknown>);
+      };
+    }, options);
+
+    if (!iterator.closed) {
+      this.iterators.add(iterator as EventIterator<unknown>);
+    }
+    return iterator;
+  }
+
   /**
    * Verifica si está conectado
    */
   isConnected(): boolean {
     return (
       this.connectionState === "connected" &&
-      this.ws?.readyState === WebSocket.OPEN
+      this.ws?.readyState === this.WS_OPEN
     );
   }
 
@@ -604,18 +1912,25 @@ export class WebSocketManager extends EventEmitter {
     return this.channelId;
   }
 
+  /**
+   * Obtiene los canales suscritos en la conexión actual
+   */
+  getChannels(): ChannelContext[] {
+    return Array.from(this.channels.values());
+  }
+
   /**
    * Obtiene el buffer de mensajes
    */
   getMessageBuffer(): string[] {
-    return [...this.messageBuffer];
+    return this.exportRawMessages();
   }
 
   /**
    * Limpia el buffer de mensajes
    */
   clearMessageBuffer(): void {
-    this.messageBuffer = [];
+    this.messageBuffer.clear();
   }
 
   /**
@@ -623,6 +1938,13 @@ export class WebSocketManager extends EventEmitter {
    */
   updateOptions(newOptions: Partial<KickWebSocketOptions>): void {
     this.options = { ...this.options, ...newOptions };
+    this.setListenerErrorStrategy(this.options.listenerErrorStrategy);
+    this.eventFilter = this.compileEventFilter();
+
+    // Redimensionar el buffer conservando los mensajes más recientes
+    if (this.options.bufferSize !== this.messageBuffer.capacity) {
+      this.messageBuffer.resize(this.options.bufferSize);
+    }
     this.log("Options updated:", this.options);
   }
 
@@ -633,8 +1955,16 @@ export class WebSocketManager extends EventEmitter {
     connectionState: ConnectionState;
     channelName: string;
     channelId: number;
+    channels: ChannelContext[];
+    socketId: string | null;
+    lastActivityAt: Date | null;
+    reconnectAttempts: number;
+    connectionHistory: ConnectionHistoryEntry[];
     messageBufferSize: number;
     listenerCount: number;
+    listenerFailures: number;
+    // Eventos recibidos sin parser, por nombre de evento de Pusher
+    unknownEvents: Record<string, number>;
     eventNames: string[];
     rawMessageStats: {
       total: number;
@@ -651,8 +1981,17 @@ export class WebSocketManager extends EventEmitter {
       connectionState: this.connectionState,
       channelName: this.channelName,
       channelId: this.channelId,
-      messageBufferSize: this.messageBuffer.length,
+      channels: this.getChannels(),
+      socketId: this.socketId,
+      lastActivityAt: this.lastActivityAt
+        ? new Date(this.lastActivityAt)
+        : null,
+      reconnectAttempts: this.reconnectAttempts,
+      connectionHistory: this.getConnectionHistory(),
+      messageBufferSize: this.messageBuffer.size,
       listenerCount: this.eventNames().length,
+      listenerFailures: this.getListenerFailureCount(),
+      unknownEvents: Object.fromEntries(this.unknownEventCounts),
       eventNames: this.eventNames(),
       rawMessageStats: this.getRawMessageStats(),
       customWebSocketConfig: {
@@ -0,0 +1,143 @@
+// Errores tipados de la librería WebSocket de Kick.com
+import type { SubscriptionErrorEvent } from "./types.js";
+
+/**
+ * Error producido cuando Pusher rechaza la suscripción a un canal
+ */
+export class SubscriptionError extends Error {
+  readonly payload: SubscriptionErrorEvent;
+
+  constructor(payload: SubscriptionErrorEvent) {
+    super(
+      `Subscription to ${payload.channel} failed: ${
+        payload.error || payload.type || "unknown error"
+      }`,
+    );
+    this.name = "SubscriptionError";
+    this.payload = payload;
+  }
+}
+
+/**
+ * Error producido cuando la suscripción no se confirma a tiempo
+ */
+export class ConnectTimeoutError extends Error {
+  readonly timeout: number;
+
+  constructor(channel: string, timeout: number) {
+    super(`Subscription to ${channel} not confirmed after ${timeout}ms`);
+    this.name = "ConnectTimeoutError";
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Error que describe el cierre de la conexión WebSocket
+ */
+export class ConnectionClosedError extends Error {
+  readonly code: number;
+  readonly reason: string;
+
+  constructor(code: number, reason: string) {
+    super(`WebSocket closed: ${code}${reason ? ` - ${reason}` : ""}`);
+    this.name = "ConnectionClosedError";
+    this.code = code;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Error enviado por el servidor mediante un frame pusher:error
+ */
+export class PusherError extends Error {
+  readonly code: number | null;
+
+  constructor(message: string, code: number | null) {
+    super(`Pusher error${code !== null ? ` ${code}` : ""}: ${message}`);
+    this.name = "PusherError";
+    this.code = code;
+  }
+}
+
+/**
+ * Error producido cuando un identificador de canal no es válido
+ */
+export class InvalidChannelError extends Error {
+  readonly input: string;
+
+  constructor(input: string, reason: string) {
+    super(`Invalid channel identifier "${input}": ${reason}`);
+    this.name = "InvalidChannelError";
+    this.input = input;
+  }
+}
+
+/**
+ * Error producido cuando una conexión se cancela mediante un AbortSignal
+ */
+export class AbortError extends Error {
+  constructor(message: string = "The operation was aborted") {
+    super(message);
+    this.name = "AbortError";
+  }
+}
+
+/**
+ * Error producido cuando la cola de un iterador de eventos se desborda
+ */
+export class EventQueueOverflowError extends Error {
+  readonly bufferSize: number;
+
+  constructor(bufferSize: number) {
+    super(`Event iterator queue overflowed (bufferSize: ${bufferSize})`);
+    this.name = "EventQueueOverflowError";
+    this.bufferSize = bufferSize;
+  }
+}
+
+/**
+ * Error producido cuando waitFor() no recibe el evento a tiempo
+ */
+export class WaitForTimeoutError extends Error {
+  readonly event: string;
+  readonly timeout: number;
+
+  constructor(event: string, timeout: number) {
+    super(`Timed out after ${timeout}ms waiting for "${event}"`);
+    this.name = "WaitForTimeoutError";
+    this.event = event;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Error lanzado por un middleware al procesar un evento
+ */
+export class MiddlewareError extends Error {
+  readonly eventType: string;
+  readonly cause: unknown;
+
+  constructor(cause: unknown, eventType: string) {
+    super(
+      `Middleware failed while processing ${eventType}: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+    );
+    this.name = "MiddlewareError";
+    this.eventType = eventType;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Error producido cuando una especificación de filtro no es válida
+ */
+export class InvalidFilterError extends Error {
+  readonly spec: unknown;
+
+  constructor(spec: unknown, reason: string) {
+    super(`Invalid event filter ${JSON.stringify(spec)}: ${reason}`);
+    this.name = "InvalidFilterError";
+    this.spec = spec;
+  }
+}
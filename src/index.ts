@@ -1,7 +1,34 @@
 // Archivo principal de exportación de la librería WebSocket de Kick.com
 export { WebSocketManager } from "./WebSocketManager.js";
 export { EventEmitter } from "./EventEmitter.js";
-export { MessageParser } from "./MessageParser.js";
+export { EventIterator } from "./EventIterator.js";
+export { EventFilter } from "./EventFilter.js";
+export { RingBuffer } from "./RingBuffer.js";
+export {
+  createNdjsonEncoder,
+  createRawNdjsonEncoder,
+} from "./NdjsonEncoder.js";
+export { MessageParser, registerEventParser } from "./MessageParser.js";
+export { ChannelIdentifier } from "./ChannelIdentifier.js";
+export {
+  KickApiChannelResolver,
+  FallbackChannelResolver,
+  CachingChannelResolver,
+  createDefaultChannelResolver,
+} from "./ChannelResolver.js";
+export {
+  SubscriptionError,
+  ConnectTimeoutError,
+  ConnectionClosedError,
+  PusherError,
+  InvalidChannelError,
+  AbortError,
+  EventQueueOverflowError,
+  WaitForTimeoutError,
+  MiddlewareError,
+  InvalidFilterError,
+} from "./errors.js";
+export { KICK_EVENT_NAMESPACES } from "./types.js";
 // Exportar tipos
 export type {
   KickMessage,
@@ -17,6 +44,46 @@ export type {
   StreamHostEvent,
   PollUpdateEvent,
   PollDeleteEvent,
+  SubscriptionErrorEvent,
+  ReconnectingEvent,
+  ReconnectFailedEvent,
+  ReconnectPolicy,
+  DisconnectCategory,
+  DisconnectEvent,
+  WebSocketLike,
+  WebSocketFactory,
+  FetchLike,
+  FetchResponseLike,
+  ResolvedChannel,
+  ChannelResolver,
+  ChannelCacheStorage,
+  ChannelTarget,
+  ConnectOptions,
+  EventIteratorOptions,
+  EventIteratorOverflowPolicy,
+  EventStreamOptions,
+  StreamEvent,
+  EventPattern,
+  PatternEventHandler,
+  KickEventNamespace,
+  PropagationControl,
+  ListenerOptions,
+  WaitForOptions,
+  Middleware,
+  MiddlewareEvent,
+  EventFilterSpec,
+  EventParser,
+  ParsedChannelIdentifier,
+  ChannelChangedEvent,
+  StateChangeEvent,
+  ListenerErrorEvent,
+  UnknownEvent,
+  BufferedMessage,
+  BufferedEvent,
+  BufferQueryOptions,
+  ListenerErrorStrategy,
+  MaxListenersExceededWarning,
+  ConnectionHistoryEntry,
   KickEventType,
   KICK_EVENTS,
   KickEventData,
@@ -24,6 +91,7 @@ export type {
   WebSocketMessage,
   ConnectionState,
   EventHandler,
+  ChannelContext,
   IKickWebSocket,
   EventDataMap,
 } from "./types.js";
@@ -32,8 +100,9 @@ export type {
 import { WebSocketManager } from "./WebSocketManager.js";
 import type {
   KickWebSocketOptions,
-  KickEventType,
   EventHandler,
+  EventPattern,
+  PatternEventHandler,
 } from "./types.js";
 
 /**
@@ -62,75 +131,45 @@ export class KickWebSocket extends WebSocketManager {
   }
 
   /**
-   * Método de conveniencia para escuchar todos los eventos
+   * Método de conveniencia para escuchar todos los eventos, incluidos los
+   * tipos añadidos en el futuro. Devuelve una función para dejar de escuchar.
    */
-  onAllEvents(handler: EventHandler<unknown>): void {
-    const events: KickEventType[] = [
-      "ChatMessage",
-      "MessageDeleted",
-      "UserBanned",
-      "UserUnbanned",
-      "Subscription",
-      "GiftedSubscriptions",
-      "PinnedMessageCreated",
-      "StreamHost",
-      "PollUpdate",
-      "PollDelete",
-      "rawMessage",
-      "ready",
-      "error",
-      "disconnect",
-    ];
-
-    events.forEach((event) => {
-      this.on(event, handler);
-    });
+  onAllEvents(handler: EventHandler<unknown>): () => void {
+    return this.onPattern("*", handler);
   }
 
   /**
    * Método de conveniencia para escuchar solo eventos de chat
    */
-  onChatEvents(handler: EventHandler<unknown>): void {
-    const chatEvents: KickEventType[] = [
-      "ChatMessage",
-      "MessageDeleted",
-      "PinnedMessageCreated",
-    ];
-
-    chatEvents.forEach((event) => {
-      this.on(event, handler);
-    });
+  onChatEvents(handler: EventHandler<unknown>): () => void {
+    return this.onPattern("chat:*", handler);
   }
 
   /**
    * Método de conveniencia para escuchar solo eventos de usuarios
    */
-  onUserEvents(handler: EventHandler<unknown>): void {
-    const userEvents: KickEventType[] = [
-      "UserBanned",
-      "UserUnbanned",
-      "Subscription",
-      "GiftedSubscriptions",
-    ];
-
-    userEvents.forEach((event) => {
-      this.on(event, handler);
-    });
+  onUserEvents(handler: EventHandler<unknown>): () => void {
+    return this.onPattern("user:*", handler);
   }
 
   /**
    * Método de conveniencia para escuchar solo eventos de stream
    */
-  onStreamEvents(handler: EventHandler<unknown>): void {
-    const streamEvents: KickEventType[] = [
-      "StreamHost",
-      "PollUpdate",
-      "PollDelete",
-    ];
+  onStreamEvents(handler: EventHandler<unknown>): () => void {
+    return this.onPattern("stream:*", handler);
+  }
 
-    streamEvents.forEach((event) => {
-      this.on(event, handler);
-    });
+  /**
+   * Suscribe un manejador de datos a un patrón de eventos
+   */
+  private onPattern(
+    pattern: EventPattern,
+    handler: EventHandler<unknown>,
+  ): () => void {
+    const listener: PatternEventHandler = (_type, data, context) =>
+      handler(data, context);
+    this.on(pattern, listener);
+    return () => this.off(pattern, listener);
   }
 
   /**
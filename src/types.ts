@@ -107,6 +107,140 @@ export interface PollDeleteEvent {
   type: "poll_delete";
 }
 
+// Error de suscripción enviado por Pusher
+export interface SubscriptionErrorEvent {
+  channel: string;
+  chatroomId: number;
+  type?: string;
+  error?: string;
+  status?: number;
+}
+
+// Datos del evento reconnecting
+export interface ReconnectingEvent {
+  attempt: number;
+  delay: number;
+  error?: Error;
+}
+
+// Datos del evento reconnectFailed
+export interface ReconnectFailedEvent {
+  attempts: number;
+  error?: Error;
+}
+
+// Categoría de una desconexión según los códigos de cierre de Pusher:
+// - manual: desconexión solicitada por la aplicación
+// - fatal: 4000-4099, no se debe reconectar
+// - backoff: 4100-4199, reconectar aplicando backoff
+// - immediate: 4200-4299, reconectar inmediatamente
+// - transient: cualquier otro código, reconectar aplicando backoff
+export type DisconnectCategory =
+  "manual" | "fatal" | "backoff" | "immediate" | "transient";
+
+// Datos del evento disconnect
+export interface DisconnectEvent {
+  code: number;
+  reason: string;
+  category: DisconnectCategory;
+  willReconnect: boolean;
+}
+
+// Datos del evento channelChanged
+export interface ChannelChangedEvent {
+  from: ChannelContext | null;
+  to: ChannelContext;
+}
+
+// Datos del evento stateChange
+export interface StateChangeEvent {
+  from: ConnectionState;
+  to: ConnectionState;
+  at: Date;
+  reason?: string;
+}
+
+// Datos del evento listenerError
+export interface ListenerErrorEvent {
+  event: string;
+  listener: Function;
+  error: unknown;
+}
+
+// Frame raw guardado en el buffer de mensajes
+export interface BufferedMessage {
+  raw: string;
+  receivedAt: Date;
+  // Evento de Pusher; null si el frame no es JSON válido
+  eventName: string | null;
+  // Tipo estándar; null si no hay parser para el evento
+  type: keyof EventDataMap | null;
+  // Canal de Pusher ("chatrooms.123.v2")
+  channel: string | null;
+}
+
+// Opciones de búsqueda en el buffer de mensajes
+export interface BufferQueryOptions {
+  types?: keyof EventDataMap | (keyof EventDataMap)[];
+  // Id numérico del remitente o su username (sin distinguir mayúsculas)
+  sender?: number | string;
+  // Rango de fechas de recepción (inclusivo)
+  since?: Date | number;
+  until?: Date | number;
+  // Texto contenido en el mensaje (sin distinguir mayúsculas)
+  contains?: string;
+  // Expresión regular sobre el contenido del mensaje
+  regex?: RegExp | string;
+  limit?: number;
+  // "asc" (por defecto) del más antiguo al más reciente; "desc" al revés
+  order?: "asc" | "desc";
+}
+
+// Evento del buffer devuelto por query(), con su frame original
+export interface BufferedEvent<
+  K extends keyof EventDataMap = keyof EventDataMap,
+> extends ParsedEvent<K> {
+  raw: string;
+  receivedAt: Date;
+  channel: string | null;
+}
+
+// Datos del evento unknownEvent: evento de Pusher sin parser registrado
+export interface UnknownEvent {
+  // Nombre del evento de Pusher ("App\\Events\\...")
+  event: string;
+  // Canal de Pusher por el que llegó ("chatrooms.123.v2")
+  channel: string | null;
+  // Campo data decodificado (el string original si no es JSON)
+  data: unknown;
+}
+
+// Datos del evento warning: se superó el máximo de listeners de un evento
+export interface MaxListenersExceededWarning {
+  event: string;
+  count: number;
+  limit: number;
+  // Pila de la llamada que añadió el listener
+  stack?: string;
+}
+
+// Qué hacer cuando un listener lanza un error
+export type ListenerErrorStrategy = "emit" | "rethrow";
+
+// Sesión de conexión registrada en el historial
+export interface ConnectionHistoryEntry {
+  channel: string;
+  chatroomId: number;
+  connectedAt: Date;
+  disconnectedAt: Date | null;
+  // Duración en ms (hasta ahora si la sesión sigue activa)
+  duration: number;
+  // Intentos de reconexión consecutivos acumulados al abrir la sesión
+  reconnectAttempts: number;
+  // Causa del cierre; null si sigue activa o terminó por un cambio de canal
+  disconnect: DisconnectEvent | null;
+}
+
 // Array de todos los eventos disponibles
 export const KICK_EVENTS = [
   "ChatMessage",
@@ -120,7 +254,15 @@ export const KICK_EVENTS = [
   "PollUpdate",
   "PollDelete",
   "ready",
+  "subscriptionError",
+  "reconnecting",
+  "reconnectFailed",
+  "channelChanged",
   "disconnect",
+  "stateChange",
+  "listenerError",
+  "unknownEvent",
+  "warning",
   "error",
   "rawMessage",
 ] as const;
@@ -128,6 +270,39 @@ export const KICK_EVENTS = [
 // Tipos de eventos que pueden ser emitidos
 export type KickEventType = (typeof KICK_EVENTS)[number];
 
+// Grupos de eventos para las suscripciones por patrón ("chat:*", "user:*"...)
+export type KickEventNamespace = "chat" | "user" | "stream" | "system";
+
+// Namespace de cada evento
+export const KICK_EVENT_NAMESPACES: Record<KickEventType, KickEventNamespace> =
+  {
+    ChatMessage: "chat",
+    MessageDeleted: "chat",
+    PinnedMessageCreated: "chat",
+    UserBanned: "user",
+    UserUnbanned: "user",
+    Subscription: "user",
+    GiftedSubscriptions: "user",
+    StreamHost: "stream",
+    PollUpdate: "stream",
+    PollDelete: "stream",
+    ready: "system",
+    subscriptionError: "system",
+    reconnecting: "system",
+    reconnectFailed: "system",
+    channelChanged: "system",
+    disconnect: "system",
+    stateChange: "system",
+    listenerError: "system",
+    unknownEvent: "system",
+    warning: "system",
+    error: "system",
+    rawMessage: "system",
+  };
+
+// Patrón de eventos con comodines: "*", "Poll*", "chat:*"
+export type EventPattern = `${string}*${string}`;
+
 // Mapa de tipos de datos para cada evento
 export interface EventDataMap {
   ChatMessage: ChatMessageEvent;
@@ -140,12 +315,40 @@ export interface EventDataMap {
   StreamHost: StreamHostEvent;
   PollUpdate: PollUpdateEvent;
   PollDelete: PollDeleteEvent;
-  ready: { channel: string };
-  disconnect: { reason?: string };
+  ready: { channel: string; chatroomId?: number };
+  subscriptionError: SubscriptionErrorEvent;
+  reconnecting: ReconnectingEvent;
+  reconnectFailed: ReconnectFailedEvent;
+  channelChanged: ChannelChangedEvent;
+  disconnect: DisconnectEvent;
+  stateChange: StateChangeEvent;
+  listenerError: ListenerErrorEvent;
+  unknownEvent: UnknownEvent;
+  warning: MaxListenersExceededWarning;
   error: Error;
   rawMessage: string;
 }
 
+// Convierte el campo `data` de un evento de Pusher en un evento de
+// EventDataMap. Los eventos propios se tipan ampliando EventDataMap:
+//   declare module "kick-wss" { interface EventDataMap { MyEvent: MyData } }
+export interface EventParser<
+  K extends keyof EventDataMap = keyof EventDataMap,
+> {
+  type: K;
+  parse(data: unknown): EventDataMap[K];
+  // Namespace para las suscripciones por patrón ("chat:*"...)
+  namespace?: KickEventNamespace;
+}
+
+// Evento de Kick ya parseado
+export interface ParsedEvent<
+  K extends keyof EventDataMap = keyof EventDataMap,
+> {
+  type: K;
+  data: EventDataMap[K];
+}
+
 // Tipos de datos para cada evento
 export type KickEventData =
   | ChatMessageEvent
@@ -159,18 +362,184 @@ export type KickEventData =
   | PollUpdateEvent
   | PollDeleteEvent
   | { channel: string } // ready event
-  | { reason?: string } // disconnect event
+  | SubscriptionErrorEvent // subscriptionError event
+  | ReconnectingEvent // reconnecting event
+  | ReconnectFailedEvent // reconnectFailed event
+  | ChannelChangedEvent // channelChanged event
+  | DisconnectEvent // disconnect event
+  | StateChangeEvent // stateChange event
+  | ListenerErrorEvent // listenerError event
+  | UnknownEvent // unknownEvent event
+  | MaxListenersExceededWarning // warning event
   | Error // error event
   | string; // rawMessage event
 
+// Política de reconexión con backoff exponencial
+export interface ReconnectPolicy {
+  // Retardo del primer intento (ms), por defecto reconnectInterval
+  initialDelay?: number;
+  // Retardo máximo entre intentos (ms)
+  maxDelay?: number;
+  // Factor de crecimiento del retardo en cada intento
+  multiplier?: number;
+  // Aplica "full jitter": retardo aleatorio entre 0 y el retardo calculado
+  jitter?: boolean;
+  // Número máximo de intentos consecutivos
+  maxAttempts?: number;
+  // Tiempo conectado (ms) tras el cual se reinicia el contador de intentos
+  resetAfter?: number;
+  // Decide si se debe intentar reconectar tras un error
+  shouldReconnect?: (error: Error, attempt: number) => boolean;
+}
+
+// Interfaz mínima de WebSocket que usa la librería (compatible con el
+// WebSocket del navegador, el paquete "ws" o un mock en memoria)
+export interface WebSocketLike {
+  readonly readyState: number;
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: any) => void) | null;
+  onclose: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+// Crea el WebSocket para una URL
+export type WebSocketFactory = (url: string) => WebSocketLike;
+
+// Respuesta mínima que la librería necesita de fetch
+export interface FetchResponseLike {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  json(): Promise<unknown>;
+}
+
+// Implementación de fetch inyectable
+export type FetchLike = (
+  url: string,
+  init?: { signal?: AbortSignal; headers?: Record<string, string> },
+) => Promise<FetchResponseLike>;
+
+// Canal resuelto: slug y chatroom al que suscribirse
+export interface ResolvedChannel {
+  slug: string;
+  chatroomId: number;
+  channelId?: number;
+}
+
+// Resuelve el slug de un canal a su chatroom
+export interface ChannelResolver {
+  resolve(
+    slug: string,
+    options?: { signal?: AbortSignal },
+  ): Promise<ResolvedChannel>;
+}
+
+// Almacenamiento compatible con localStorage para persistir resoluciones
+export interface ChannelCacheStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem?(key: string): void;
+}
+
+// Resultado de interpretar un identificador de canal
+export type ParsedChannelIdentifier =
+  { kind: "slug"; slug: string } | { kind: "id"; id: number };
+
+// Canal al que conectarse: slug o chatroom conocido (sin consulta HTTP)
+export type ChannelTarget = string | { chatroomId: number; slug?: string };
+
+// Filtro declarativo de eventos (serializable a JSON). Las reglas de
+// mensaje solo se aplican a ChatMessage y PinnedMessageCreated.
+export type EventFilterSpec =
+  | { and: EventFilterSpec[] }
+  | { or: EventFilterSpec[] }
+  | { not: EventFilterSpec }
+  // Tipo de evento
+  | { type: keyof EventDataMap | (keyof EventDataMap)[] }
+  // Usuario remitente (sin distinguir mayúsculas)
+  | { sender: { in?: string[]; notIn?: string[] } }
+  // El remitente tiene alguno de los badges
+  | { badge: string | string[] }
+  // Expresión regular sobre el contenido
+  | { regex: string; flags?: string }
+  // Longitud del contenido
+  | { length: { min?: number; max?: number } }
+  // El remitente es (o no es) suscriptor
+  | { subscriber: boolean };
+
 // Opciones de configuración
 export interface KickWebSocketOptions {
   debug?: boolean;
   autoReconnect?: boolean;
   reconnectInterval?: number;
+  reconnectPolicy?: ReconnectPolicy;
   enableBuffer?: boolean;
   bufferSize?: number;
-  filteredEvents?: KickEventType[];
+  // Obsoleto: equivale a includeEvents
+  filteredEvents?: (keyof EventDataMap)[];
+  // Solo se emiten estos eventos (vacío = todos)
+  includeEvents?: (keyof EventDataMap)[];
+  // Eventos que nunca se emiten
+  excludeEvents?: (keyof EventDataMap)[];
+  // Filtro declarativo aplicado antes de emitir cada evento
+  eventFilter?: EventFilterSpec;
+  // Inactividad máxima (ms) antes de enviar un pusher:ping
+  activityTimeout?: number;
+  // Tiempo máximo (ms) de espera del pusher:pong antes de reconectar
+  pongTimeout?: number;
+  // Tiempo máximo (ms) para que connect() reciba la confirmación de suscripción
+  connectTimeout?: number;
+  // Crea el WebSocket (por defecto el WebSocket global)
+  webSocketFactory?: WebSocketFactory;
+  // Implementación de fetch (por defecto el fetch global)
+  fetch?: FetchLike;
+  // Resolver de canales (por defecto la API de Kick con caché)
+  channelResolver?: ChannelResolver;
+  // Cambia automáticamente al canal anfitrionado al recibir StreamHost
+  followHosts?: boolean;
+  // Cancela conexiones, reconexiones y peticiones en curso al abortarse
+  signal?: AbortSignal;
+  // Número máximo de sesiones guardadas en el historial de conexión
+  historySize?: number;
+  // "emit" notifica los errores de listeners con listenerError; "rethrow" los relanza
+  listenerErrorStrategy?: ListenerErrorStrategy;
+}
+
+// Qué hacer cuando la cola de un iterador de eventos está llena
+export type EventIteratorOverflowPolicy =
+  "drop-oldest" | "drop-newest" | "error";
+
+// Opciones de events() y stream()
+export interface EventIteratorOptions {
+  // Eventos máximos en cola sin consumir (por defecto 100)
+  bufferSize?: number;
+  // Política de desbordamiento (por defecto "drop-oldest")
+  overflow?: EventIteratorOverflowPolicy;
+  // Termina el iterador al abortarse
+  signal?: AbortSignal;
+}
+
+// Opciones de toReadableStream()
+export interface EventStreamOptions extends EventIteratorOptions {
+  // Eventos que el ReadableStream mantiene en su cola interna (por defecto 1)
+  highWaterMark?: number;
+}
+
+// Evento entregado por stream()
+export interface StreamEvent<
+  K extends keyof EventDataMap = keyof EventDataMap,
+> {
+  type: K;
+  data: EventDataMap[K];
+  context?: ChannelContext;
+}
+
+// Opciones de una llamada a connect()
+export interface ConnectOptions {
+  // Cancela esta conexión al abortarse
+  signal?: AbortSignal;
 }
 
 // Estructura del mensaje raw del WebSocket
@@ -182,18 +551,79 @@ export interface WebSocketMessage {
 
 // Estados de conexión
 export type ConnectionState =
-  | "disconnected"
-  | "connecting"
-  | "connected"
-  | "reconnecting"
-  | "error";
+  "disconnected" | "connecting" | "connected" | "reconnecting" | "error";
+
+// Canal de origen con el que se etiqueta cada evento emitido
+export interface ChannelContext {
+  channel: string;
+  chatroomId: number;
+}
+
+// Control de propagación que reciben tras los argumentos del evento los
+// listeners registrados con `control: true`
+export interface PropagationControl {
+  // Impide que el evento llegue a los listeners de menor prioridad
+  stopPropagation(): void;
+  readonly stopped: boolean;
+}
+
+// Opciones de registro de un listener
+export interface ListenerOptions {
+  // Los listeners de mayor prioridad se ejecutan antes (por defecto 0)
+  priority?: number;
+  // Recibir el control de propagación tras los argumentos del evento
+  control?: boolean;
+}
+
+// Evento parseado que atraviesa la cadena de middleware. Sin parámetro es
+// una unión discriminada por `type`: comprobar el tipo acota `data`.
+export type MiddlewareEvent<K extends keyof EventDataMap = keyof EventDataMap> =
+  {
+    [P in K]: {
+      type: P;
+      data: EventDataMap[P];
+      // Frame original recibido del WebSocket
+      raw: string;
+      context: ChannelContext;
+    };
+  }[K];
+
+// Middleware entre el parseo y la emisión. Llamar a `next()` continúa la
+// cadena (opcionalmente con otro evento); no llamarlo suprime el evento y
+// llamarlo varias veces emite eventos adicionales.
+export type Middleware = (
+  event: MiddlewareEvent,
+  next: (event?: MiddlewareEvent) => Promise<void>,
+) => void | Promise<void>;
+
+// Opciones de waitFor()
+export interface WaitForOptions<T = unknown> {
+  // Solo resuelve con los eventos que cumplan el predicado
+  filter?: (data: T, context?: ChannelContext) => boolean;
+  // Tiempo máximo de espera (ms)
+  timeout?: number;
+  // Cancela la espera al abortarse
+  signal?: AbortSignal;
+}
 
 // Manejador de eventos
-export type EventHandler<T = unknown> = (data: T) => void;
+export type EventHandler<T = unknown> = (
+  data: T,
+  context?: ChannelContext,
+  control?: PropagationControl,
+) => void;
+
+// Manejador de un patrón de eventos: recibe el tipo antes de los datos
+export type PatternEventHandler = (
+  type: KickEventType,
+  data: unknown,
+  context?: ChannelContext,
+  control?: PropagationControl,
+) => void;
 
 // Interfaz para el manager de WebSocket
 export interface IKickWebSocket {
-  connect(channelName: string): Promise<void>;
+  connect(channel: ChannelTarget, options?: ConnectOptions): Promise<void>;
   disconnect(): void;
   on<T = KickEventData>(event: KickEventType, handler: EventHandler<T>): void;
   off<T = KickEventData>(event: KickEventType, handler: EventHandler<T>): void;
@@ -0,0 +1,56 @@
+// Utilidades compartidas por las pruebas
+import type { KickWebSocket } from "../src/index.js";
+
+// Campos opcionales de un frame de chat de prueba
+export interface ChatFrameOptions {
+  // Canal de Pusher del frame (por defecto el chatroom de "test-channel")
+  channel?: string;
+  // Id del mensaje (por defecto el propio contenido)
+  id?: string;
+  senderId?: number;
+  username?: string;
+  badges?: unknown[];
+}
+
+/**
+ * Construye un frame de Pusher con un ChatMessageEvent
+ */
+export function chatFrame(
+  content: string,
+  options: ChatFrameOptions = {},
+): string {
+  const username = options.username ?? "user";
+
+  return JSON.stringify({
+    event: "App\\Events\\ChatMessageEvent",
+    channel: options.channel ?? "chatrooms.67890.v2",
+    data: JSON.stringify({
+      id: options.id ?? content,
+      content,
+      created_at: "2024-01-01T00:00:00Z",
+      sender: {
+        id: options.senderId ?? 1,
+        username,
+        slug: username,
+        ...(options.badges && {
+          identity: { color: "#ffffff", badges: options.badges },
+        }),
+      },
+    }),
+  });
+}
+
+/**
+ * Deja correr los temporizadores y promesas pendientes
+ */
+export const flush = (ms = 20) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Entrega un frame al cliente como si hubiera llegado por el socket
+ */
+export function receiveFrame(kickWS: KickWebSocket, raw: string): void {
+  (kickWS as unknown as { handleMessage(raw: string): void }).handleMessage(
+    raw,
+  );
+}
@@ -8,10 +8,30 @@ import {
   beforeAll,
   afterAll,
 } from "bun:test";
-import { KickWebSocket, MessageParser } from "../../src/index.js";
+import {
+  KickWebSocket,
+  MessageParser,
+  SubscriptionError,
+  ConnectTimeoutError,
+  ConnectionClosedError,
+  PusherError,
+  AbortError,
+  MiddlewareError,
+  InvalidFilterError,
+  registerEventParser,
+} from "../../src/index.js";
+import type { ChannelContext, WebSocketLike } from "../../src/index.js";
+import { chatFrame, flush } from "../helpers.js";
+
+// Custom event registered in the "Event Filters" tests
+declare module "../../src/types.js" {
+  interface EventDataMap {
+    KicksGifted: { sender: string; amount: number };
+  }
+}
 
 // Mock global WebSocket for testing
-class MockWebSocket {
+class MockWebSocket implements WebSocketLike {
   static CONNECTING = 0;
   static OPEN = 1;
   static CLOSING = 2;
@@ -19,10 +39,10 @@ class MockWebSocket {
 
   public readyState = MockWebSocket.CONNECTING;
   public url = "";
-  private onopen: ((event: Event) => void) | null = null;
-  private onclose: ((event: CloseEvent) => void) | null = null;
-  private onerror: ((event: Event) => void) | null = null;
-  private onmessage: ((event: MessageEvent) => void) | null = null;
+  public onopen: ((event: Event) => void) | null = null;
+  public onclose: ((event: CloseEvent) => void) | null = null;
+  public onerror: ((event: Event) => void) | null = null;
+  public onmessage: ((event: MessageEvent) => void) | null = null;
   public messageQueue: string[] = [];
   public connectionTimer: NodeJS.Timeout | null = null;
 
@@ -51,22 +71,6 @@ class MockWebSocket {
     }, 50);
   }
 
-  set onopen(handler: ((event: Event) => void) | null) {
-    this.onopen = handler;
-  }
-
-  set onclose(handler: ((event: CloseEvent) => void) | null) {
-    this.onclose = handler;
-  }
-
-  set onerror(handler: ((event: Event) => void) | null) {
-    this.onerror = handler;
-  }
-
-  set onmessage(handler: ((event: MessageEvent) => void) | null) {
-    this.onmessage = handler;
-  }
-
   send(data: string): void {
     // Simulate successful send
     if (this.readyState !== MockWebSocket.OPEN) {
@@ -105,38 +109,77 @@ class MockWebSocket {
 const originalWebSocket = global.WebSocket;
 const originalFetch = global.fetch;
 
+// Replace the global WebSocket with a mock (or remove it)
+function useWebSocket(
+  socket: (new (url: string) => WebSocketLike) | undefined,
+): void {
+  global.WebSocket = socket as unknown as typeof WebSocket;
+}
+
+// Replace the global fetch with a mock
+function useFetch(fetchImpl: (url: string) => Promise<Response>): void {
+  global.fetch = fetchImpl as unknown as typeof fetch;
+}
+
+// Current socket of a client (null when disconnected)
+function socketOf(kickWS: KickWebSocket): MockWebSocket | null {
+  return (kickWS as unknown as { ws: MockWebSocket | null }).ws;
+}
+
 beforeAll(() => {
   // Mock WebSocket constructor
-  global.WebSocket = MockWebSocket as any;
+  useWebSocket(MockWebSocket);
 
   // Mock fetch for channel info
-  global.fetch = async (url: string) => {
-    if (url.includes("kick.com/api/v2/channels/test-channel")) {
-      return new Response(
-        JSON.stringify({
-          id: 12345,
-          slug: "test-channel",
-          user: {
-            username: "testuser",
-          },
-          chatroom: {
-            id: 67890,
-          },
-        }),
-        {
-          status: 200,
-          headers: { "Content-Type": "application/json" },
+  useFetch(mockFetch);
+});
+
+// Mock fetch for channel info
+async function mockFetch(url: string): Promise<Response> {
+  if (url.includes("kick.com/api/v2/channels/test-channel")) {
+    return new Response(
+      JSON.stringify({
+        id: 12345,
+        slug: "test-channel",
+        user: {
+          username: "testuser",
         },
-      );
-    }
+        chatroom: {
+          id: 67890,
+        },
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  }
 
-    if (url.includes("kick.com/api/v2/channels/nonexistent-channel")) {
-      return new Response("Channel not found", { status: 404 });
-    }
+  if (url.includes("kick.com/api/v2/channels/other-channel")) {
+    return new Response(
+      JSON.stringify({
+        id: 54321,
+        slug: "other-channel",
+        user: {
+          username: "otheruser",
+        },
+        chatroom: {
+          id: 11111,
+        },
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  }
 
-    return new Response("Not Found", { status: 404 });
-  };
-});
+  if (url.includes("kick.com/api/v2/channels/nonexistent-channel")) {
+    return new Response("Channel not found", { status: 404 });
+  }
+
+  return new Response("Not Found", { status: 404 });
+}
 
 afterAll(() => {
   // Restore original globals
@@ -238,7 +281,7 @@ describe("WebSocket Integration Tests", () => {
     });
 
     // Get the WebSocket instance and simulate message
-    const wsInstance = (kickWS as any).ws;
+    const wsInstance = socketOf(kickWS)!;
     if (wsInstance) {
       wsInstance.simulateMessage(chatMessage);
       // Wait a bit for message processing
@@ -265,7 +308,7 @@ describe("WebSocket Integration Tests", () => {
     // Wait for connection to be fully established
     await new Promise((resolve) => setTimeout(resolve, 100));
 
-    const wsInstance = (kickWS as any).ws;
+    const wsInstance = socketOf(kickWS)!;
 
     // Simulate receiving a ban event
     const banEvent = JSON.stringify({
@@ -301,7 +344,7 @@ describe("WebSocket Integration Tests", () => {
     // Wait for connection to be fully established
     await new Promise((resolve) => setTimeout(resolve, 100));
 
-    const wsInstance = (kickWS as any).ws;
+    const wsInstance = socketOf(kickWS)!;
 
     // Simulate receiving a subscription event
     const subEvent = JSON.stringify({
@@ -353,7 +396,7 @@ describe("WebSocket Integration Tests", () => {
     // Wait a bit for the async connection to complete
     await new Promise((resolve) => setTimeout(resolve, 100));
 
-    const wsInstance = (kickWS as any).ws;
+    const wsInstance = socketOf(kickWS)!;
 
     // Send multiple messages through WebSocket simulation
     const messages = [
@@ -464,7 +507,7 @@ describe("WebSocket Integration Tests", () => {
     // Wait a bit for the async connection to complete
     await new Promise((resolve) => setTimeout(resolve, 100));
 
-    const wsInstance = (kickWSFiltered as any).ws;
+    const wsInstance = socketOf(kickWSFiltered)!;
 
     // Send chat message (should be received)
     const chatMessage = JSON.stringify({
@@ -533,7 +576,7 @@ describe("WebSocket Integration Tests", () => {
     // Wait a bit for the async connection to complete
     await new Promise((resolve) => setTimeout(resolve, 100));
 
-    const wsInstance = (kickWS as any).ws;
+    const wsInstance = socketOf(kickWS)!;
 
     // Send different types of events
     const events = [
@@ -615,6 +658,1376 @@ describe("WebSocket Integration Tests", () => {
   });
 });
 
+describe("Injectable Transport", () => {
+  afterEach(() => {
+    useWebSocket(MockWebSocket);
+    useFetch(mockFetch);
+  });
+
+  it("should use the configured webSocketFactory and fetch instead of globals", async () => {
+    useWebSocket(undefined);
+    useFetch(async () => {
+      throw new Error("global fetch should not be used");
+    });
+
+    const urls: string[] = [];
+    const sockets: MockWebSocket[] = [];
+    const kickWS = new KickWebSocket({
+      autoReconnect: false,
+      webSocketFactory: (url) => {
+        urls.push(url);
+        const socket = new MockWebSocket(url);
+        sockets.push(socket);
+        return socket;
+      },
+      fetch: async (url) => {
+        urls.push(url);
+        return new Response(JSON.stringify({ chatroom: { id: 67890 } }));
+      },
+    });
+
+    await kickWS.connect("test-channel");
+
+    expect(urls[0]).toBe("https://kick.com/api/v2/channels/test-channel");
+    expect(urls[1]).toStartWith("wss://ws-us2.pusher.com/app/");
+    expect(sockets.length).toBe(1);
+    expect(kickWS.isConnected()).toBe(true);
+    kickWS.disconnect();
+  });
+});
+
+describe("Channel Resolution", () => {
+  it("should connect with a chatroom id without any HTTP lookup", async () => {
+    let fetchCalls = 0;
+    const kickWS = new KickWebSocket({
+      autoReconnect: false,
+      fetch: async () => {
+        fetchCalls++;
+        throw new Error("fetch should not be used");
+      },
+    });
+
+    await kickWS.connect({ chatroomId: 67890, slug: "test-channel" });
+
+    expect(fetchCalls).toBe(0);
+    expect(kickWS.getChannelId()).toBe(67890);
+    expect(kickWS.getChannelName()).toBe("test-channel");
+    expect(kickWS.isConnected()).toBe(true);
+    kickWS.disconnect();
+  });
+
+  it("should use a custom channel resolver", async () => {
+    const slugs: string[] = [];
+    const kickWS = new KickWebSocket({
+      autoReconnect: false,
+      channelResolver: {
+        resolve: async (slug) => {
+          slugs.push(slug);
+          return { slug, chatroomId: 67890 };
+        },
+      },
+    });
+
+    await kickWS.connect("test-channel");
+
+    expect(slugs).toEqual(["test-channel"]);
+    expect(kickWS.getChannelId()).toBe(67890);
+    kickWS.disconnect();
+  });
+});
+
+describe("Multi-channel Subscriptions", () => {
+  let kickWS: KickWebSocket;
+
+  beforeEach(() => {
+    kickWS = new KickWebSocket({ autoReconnect: false });
+  });
+
+  afterEach(() => {
+    kickWS.disconnect();
+  });
+
+  it("should subscribe additional channels on the same socket", async () => {
+    await kickWS.connect("test-channel");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const wsInstance = socketOf(kickWS)!;
+    const context = await kickWS.addChannel("other-channel");
+
+    expect(context).toEqual({ channel: "other-channel", chatroomId: 11111 });
+    expect(socketOf(kickWS)).toBe(wsInstance);
+    expect(kickWS.getChannels().map((c) => c.channel)).toEqual([
+      "test-channel",
+      "other-channel",
+    ]);
+
+    const sent = wsInstance.messageQueue.map((m: string) => JSON.parse(m));
+    expect(sent).toContainEqual({
+      event: "pusher:subscribe",
+      data: { auth: "", channel: "chatrooms.11111.v2" },
+    });
+  });
+
+  it("should tag events with the channel they came from", async () => {
+    const received: Array<{ content: string; channel?: string; id?: number }> =
+      [];
+
+    kickWS.onChatMessage((message, context) => {
+      received.push({
+        content: message.content,
+        channel: context?.channel,
+        id: context?.chatroomId,
+      });
+    });
+
+    await kickWS.connect("test-channel");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await kickWS.addChannel("other-channel");
+
+    const wsInstance = socketOf(kickWS)!;
+    wsInstance.simulateMessage(
+      chatFrame("from test", { channel: "chatrooms.67890.v2" }),
+    );
+    wsInstance.simulateMessage(
+      chatFrame("from other", { channel: "chatrooms.11111.v2" }),
+    );
+
+    expect(received).toEqual([
+      { content: "from test", channel: "test-channel", id: 67890 },
+      { content: "from other", channel: "other-channel", id: 11111 },
+    ]);
+  });
+
+  it("should unsubscribe removed channels", async () => {
+    await kickWS.connect("test-channel");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await kickWS.addChannel("other-channel");
+
+    expect(kickWS.removeChannel("other-channel")).toBe(true);
+    expect(kickWS.removeChannel("other-channel")).toBe(false);
+
+    const wsInstance = socketOf(kickWS)!;
+    const last = JSON.parse(wsInstance.messageQueue.at(-1));
+    expect(last).toEqual({
+      event: "pusher:unsubscribe",
+      data: { auth: "", channel: "chatrooms.11111.v2" },
+    });
+    expect(kickWS.getChannels().map((c) => c.channel)).toEqual([
+      "test-channel",
+    ]);
+  });
+
+  it("should drop late frames from removed channels", async () => {
+    const received: Array<string | undefined> = [];
+    kickWS.onChatMessage((_message, context) =>
+      received.push(context?.channel),
+    );
+
+    await kickWS.connect("test-channel");
+    await flush(100);
+    await kickWS.addChannel("other-channel");
+    kickWS.removeChannel("other-channel");
+
+    const wsInstance = socketOf(kickWS)!;
+    wsInstance.simulateMessage(
+      chatFrame("late", { channel: "chatrooms.11111.v2" }),
+    );
+    wsInstance.simulateMessage(chatFrame("current"));
+
+    expect(received).toEqual(["test-channel"]);
+  });
+
+  it("should tag raw messages with the channel context", async () => {
+    const received: Array<string | undefined> = [];
+    kickWS.on("rawMessage", (_raw, context) => received.push(context?.channel));
+
+    await kickWS.connect("test-channel");
+    await flush(100);
+    received.length = 0;
+
+    const wsInstance = socketOf(kickWS)!;
+    wsInstance.simulateMessage(chatFrame("current"));
+    wsInstance.simulateMessage(
+      chatFrame("unknown", { channel: "chatrooms.11111.v2" }),
+    );
+    wsInstance.simulateMessage("not json");
+
+    expect(received).toEqual(["test-channel", undefined, undefined]);
+  });
+});
+
+describe("Subscription Acknowledgement", () => {
+  // Mock que abre la conexión y responde a la suscripción con el frame dado
+  const createAckWebSocket = (frame: object | null) =>
+    class extends MockWebSocket {
+      constructor(url: string) {
+        super(url);
+        if (this.connectionTimer) {
+          clearTimeout(this.connectionTimer);
+        }
+
+        this.connectionTimer = setTimeout(() => {
+          this.readyState = MockWebSocket.OPEN;
+          this.onopen?.(new Event("open"));
+          if (frame) {
+            setTimeout(() => this.simulateMessage(JSON.stringify(frame)), 10);
+          }
+        }, 10);
+      }
+    };
+
+  afterEach(() => {
+    useWebSocket(MockWebSocket);
+  });
+
+  it("should emit ready only after subscription_succeeded", async () => {
+    const kickWS = new KickWebSocket({ autoReconnect: false });
+    const states: string[] = [];
+
+    kickWS.on("ready", () => {
+      states.push(kickWS.getConnectionState());
+    });
+
+    const connecting = kickWS.connect("test-channel");
+    await new Promise((resolve) => setTimeout(resolve, 55));
+
+    // Socket abierto y suscripción enviada, pero sin confirmar todavía
+    expect(states).toEqual([]);
+    expect(kickWS.getConnectionState()).toBe("connecting");
+
+    await connecting;
+    expect(states).toEqual(["connected"]);
+    kickWS.disconnect();
+  });
+
+  it("should reject connect() and emit subscriptionError on failure", async () => {
+    useWebSocket(
+      createAckWebSocket({
+        event: "pusher:subscription_error",
+        channel: "chatrooms.67890.v2",
+        data: { type: "AuthError", error: "Forbidden", status: 403 },
+      }),
+    );
+
+    const kickWS = new KickWebSocket({ autoReconnect: false });
+    let errorEvent: any = null;
+    let readyCalled = false;
+
+    kickWS.onSubscriptionError((event) => {
+      errorEvent = event;
+    });
+    kickWS.onReady(() => {
+      readyCalled = true;
+    });
+
+    const error = await kickWS.connect("test-channel").catch((e) => e);
+
+    expect(error).toBeInstanceOf(SubscriptionError);
+    expect(error.payload.status).toBe(403);
+    expect(errorEvent).toEqual({
+      channel: "test-channel",
+      chatroomId: 67890,
+      type: "AuthError",
+      error: "Forbidden",
+      status: 403,
+    });
+    expect(readyCalled).toBe(false);
+    expect(kickWS.getConnectionState()).toBe("error");
+    kickWS.disconnect();
+  });
+
+  it("should reject connect() when the subscription is not confirmed in time", async () => {
+    useWebSocket(createAckWebSocket(null));
+
+    const kickWS = new KickWebSocket({
+      autoReconnect: false,
+      connectTimeout: 50,
+    });
+
+    const error = await kickWS.connect("test-channel").catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConnectTimeoutError);
+    expect(kickWS.isConnected()).toBe(false);
+    expect(socketOf(kickWS)).toBeNull();
+    kickWS.disconnect();
+  });
+
+  it("should reject connect() with ConnectionClosedError when closed before the subscription", async () => {
+    useWebSocket(createAckWebSocket(null));
+    const kickWS = new KickWebSocket({ autoReconnect: false });
+
+    const connecting = kickWS.connect("test-channel").catch((e) => e);
+    await flush();
+    socketOf(kickWS)!.close(1006, "Abnormal closure");
+    const error = await connecting;
+
+    expect(error).toBeInstanceOf(ConnectionClosedError);
+    expect(error.code).toBe(1006);
+    kickWS.disconnect();
+  });
+
+  it("should return the pending promise when connect() is called while connecting", async () => {
+    const kickWS = new KickWebSocket({ autoReconnect: false });
+
+    const first = kickWS.connect("test-channel");
+    const second = kickWS.connect("test-channel");
+    expect(second).toBe(first);
+
+    await second;
+    expect(kickWS.isConnected()).toBe(true);
+    kickWS.disconnect();
+  });
+});
+
+describe("Reconnect Policy", () => {
+  // Mock cuya conexión se cierra siempre de forma anormal
+  class FailingWebSocket extends MockWebSocket {
+    constructor(url: string) {
+      super(url);
+      if (this.connectionTimer) {
+        clearTimeout(this.connectionTimer);
+      }
+
+      this.connectionTimer = setTimeout(() => {
+        this.readyState = MockWebSocket.CLOSED;
+        this.onclose?.(
+          new CloseEvent("close", { code: 1006, reason: "Connection lost" }),
+        );
+      }, 5);
+    }
+  }
+
+  beforeEach(() => {
+    useWebSocket(FailingWebSocket);
+  });
+
+  afterEach(() => {
+    useWebSocket(MockWebSocket);
+  });
+
+  it("should back off exponentially and give up after maxAttempts", async () => {
+    const kickWS = new KickWebSocket({
+      reconnectPolicy: {
+        initialDelay: 10,
+        multiplier: 2,
+        jitter: false,
+        maxAttempts: 3,
+      },
+    });
+
+    const attempts: Array<{ attempt: number; delay: number }> = [];
+    let failed: any = null;
+
+    kickWS.onReconnecting(({ attempt, delay }) => {
+      attempts.push({ attempt, delay });
+    });
+    kickWS.onReconnectFailed((data) => {
+      failed = data;
+    });
+
+    await kickWS.connect("test-channel").catch(() => {});
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    expect(attempts).toEqual([
+      { attempt: 1, delay: 10 },
+      { attempt: 2, delay: 20 },
+      { attempt: 3, delay: 40 },
+    ]);
+    expect(failed.attempts).toBe(3);
+    expect(failed.error).toBeInstanceOf(ConnectionClosedError);
+    expect(failed.error.code).toBe(1006);
+    kickWS.disconnect();
+  });
+
+  it("should cap the delay at maxDelay and apply full jitter", async () => {
+    const kickWS = new KickWebSocket({
+      reconnectPolicy: { initialDelay: 1000, maxDelay: 1500, jitter: true },
+    });
+    const policy = (kickWS as any).getReconnectPolicy();
+
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      const delay = (kickWS as any).computeReconnectDelay(policy, attempt);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(1500);
+    }
+  });
+
+  it("should consult shouldReconnect before each attempt", async () => {
+    const calls: Array<[string, number]> = [];
+    const kickWS = new KickWebSocket({
+      reconnectPolicy: {
+        initialDelay: 10,
+        jitter: false,
+        shouldReconnect: (error, attempt) => {
+          calls.push([error.name, attempt]);
+          return attempt < 2;
+        },
+      },
+    });
+
+    let failed: any = null;
+    kickWS.onReconnectFailed((data) => {
+      failed = data;
+    });
+
+    await kickWS.connect("test-channel").catch(() => {});
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(calls).toEqual([
+      ["ConnectionClosedError", 1],
+      ["ConnectionClosedError", 2],
+    ]);
+    expect(failed.attempts).toBe(1);
+    kickWS.disconnect();
+  });
+});
+
+describe("Close Code Handling", () => {
+  let kickWS: KickWebSocket;
+  let disconnects: any[];
+  let reconnects: any[];
+
+  beforeEach(async () => {
+    kickWS = new KickWebSocket({
+      reconnectPolicy: { initialDelay: 1000, jitter: false },
+    });
+    disconnects = [];
+    reconnects = [];
+    kickWS.onDisconnect((data) => disconnects.push(data));
+    kickWS.onReconnecting((data) => reconnects.push(data));
+    kickWS.onError(() => {});
+
+    await kickWS.connect("test-channel");
+  });
+
+  afterEach(() => {
+    kickWS.disconnect();
+  });
+
+  it("should not reconnect on 4000-4099 close codes", () => {
+    socketOf(kickWS)!.close(4001, "Application does not exist");
+
+    expect(disconnects[0]).toEqual({
+      code: 4001,
+      reason: "Application does not exist",
+      category: "fatal",
+      willReconnect: false,
+    });
+    expect(reconnects).toEqual([]);
+  });
+
+  it("should not emit reconnectFailed on fatal closes without autoReconnect", async () => {
+    const manual = new KickWebSocket({ autoReconnect: false });
+    const failures: any[] = [];
+    manual.onReconnectFailed((data) => failures.push(data));
+    manual.onError(() => {});
+    await manual.connect("test-channel");
+
+    socketOf(manual)!.close(4001, "Application does not exist");
+
+    expect(failures).toEqual([]);
+    manual.disconnect();
+  });
+
+  it("should emit disconnect once when disconnect() follows a natural close", async () => {
+    const manual = new KickWebSocket({ autoReconnect: false });
+    const events: any[] = [];
+    manual.onDisconnect((data) => events.push(data));
+    await manual.connect("test-channel");
+
+    socketOf(manual)!.close(1006, "Abnormal closure");
+    manual.disconnect();
+
+    expect(events.map((event) => event.code)).toEqual([1006]);
+    expect(socketOf(manual)).toBeNull();
+  });
+
+  it("should not emit disconnect again after reconnectFailed", () => {
+    const failures: any[] = [];
+    kickWS.onReconnectFailed((data) => failures.push(data));
+
+    socketOf(kickWS)!.close(4001, "Application does not exist");
+    kickWS.disconnect();
+
+    expect(failures.length).toBe(1);
+    expect(disconnects.map((event) => event.code)).toEqual([4001]);
+  });
+
+  it("should reconnect with backoff on 4100-4199 close codes", () => {
+    socketOf(kickWS)!.close(4100, "Over capacity");
+
+    expect(disconnects[0]).toMatchObject({
+      category: "backoff",
+      willReconnect: true,
+    });
+    expect(reconnects[0]).toMatchObject({ attempt: 1, delay: 1000 });
+  });
+
+  it("should reconnect immediately on 4200-4299 close codes", () => {
+    socketOf(kickWS)!.close(4200, "Generic reconnect immediately");
+
+    expect(disconnects[0]).toMatchObject({
+      category: "immediate",
+      willReconnect: true,
+    });
+    expect(reconnects[0]).toMatchObject({ attempt: 1, delay: 0 });
+  });
+
+  it("should act on pusher:error frames", () => {
+    let error: any = null;
+    kickWS.onError((e) => {
+      error = e;
+    });
+
+    socketOf(kickWS)!.simulateMessage(
+      JSON.stringify({
+        event: "pusher:error",
+        data: { message: "Application is over connection quota", code: 4004 },
+      }),
+    );
+
+    expect(error).toBeInstanceOf(PusherError);
+    expect(error.code).toBe(4004);
+    expect(disconnects[0]).toMatchObject({
+      code: 4004,
+      category: "fatal",
+      willReconnect: false,
+    });
+    expect(socketOf(kickWS)).toBeNull();
+  });
+
+  it("should report manual disconnects", () => {
+    kickWS.disconnect();
+
+    expect(disconnects[0]).toEqual({
+      code: 1000,
+      reason: "Manual disconnect",
+      category: "manual",
+      willReconnect: false,
+    });
+  });
+});
+
+describe("Pusher Keepalive", () => {
+  let kickWS: KickWebSocket;
+
+  afterEach(() => {
+    kickWS.disconnect();
+  });
+
+  it("should read socket id and activity timeout from connection_established", async () => {
+    kickWS = new KickWebSocket({ autoReconnect: false });
+    await kickWS.connect("test-channel");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const wsInstance = socketOf(kickWS)!;
+    wsInstance.simulateMessage(
+      JSON.stringify({
+        event: "pusher:connection_established",
+        data: JSON.stringify({ socket_id: "123.456", activity_timeout: 120 }),
+      }),
+    );
+
+    const stats = kickWS.getStats();
+    expect(stats.socketId).toBe("123.456");
+    expect(stats.lastActivityAt).toBeInstanceOf(Date);
+  });
+
+  it("should answer pusher:ping with pusher:pong", async () => {
+    kickWS = new KickWebSocket({ autoReconnect: false });
+    await kickWS.connect("test-channel");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const wsInstance = socketOf(kickWS)!;
+    wsInstance.simulateMessage(
+      JSON.stringify({ event: "pusher:ping", data: {} }),
+    );
+
+    expect(JSON.parse(wsInstance.messageQueue.at(-1))).toEqual({
+      event: "pusher:pong",
+      data: {},
+    });
+  });
+
+  it("should ping when idle and drop the link when no pong arrives", async () => {
+    kickWS = new KickWebSocket({
+      autoReconnect: false,
+      activityTimeout: 150,
+      pongTimeout: 50,
+    });
+
+    let disconnectData: any = null;
+    kickWS.on("disconnect", (data) => {
+      disconnectData = data;
+    });
+
+    await kickWS.connect("test-channel");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const wsInstance = socketOf(kickWS)!;
+    await new Promise((resolve) => setTimeout(resolve, 260));
+
+    const sent = wsInstance.messageQueue.map((m: string) => JSON.parse(m));
+    expect(sent).toContainEqual({ event: "pusher:ping", data: {} });
+    expect(disconnectData).toEqual({
+      code: 4201,
+      reason: "Pong reply not received",
+      category: "immediate",
+      willReconnect: false,
+    });
+    expect(kickWS.getConnectionState()).toBe("disconnected");
+  });
+});
+
+describe("Channel Switching", () => {
+  let kickWS: KickWebSocket;
+
+  const subscriptionAck = (channel: string) =>
+    JSON.stringify({
+      event: "pusher_internal:subscription_succeeded",
+      channel,
+      data: "{}",
+    });
+
+  afterEach(() => {
+    kickWS.disconnect();
+  });
+
+  it("should switch channels on the same socket", async () => {
+    kickWS = new KickWebSocket({ autoReconnect: false });
+    let changed: any = null;
+    kickWS.onChannelChanged((data) => {
+      changed = data;
+    });
+
+    await kickWS.connect("test-channel");
+    const wsInstance = socketOf(kickWS)!;
+
+    const switching = kickWS.switchChannel("other-channel");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    wsInstance.simulateMessage(subscriptionAck("chatrooms.11111.v2"));
+    const context = await switching;
+
+    expect(context).toEqual({ channel: "other-channel", chatroomId: 11111 });
+    expect(socketOf(kickWS)).toBe(wsInstance);
+    expect(kickWS.getChannelName()).toBe("other-channel");
+    expect(kickWS.getChannels()).toEqual([context]);
+    expect(changed).toEqual({
+      from: { channel: "test-channel", chatroomId: 67890 },
+      to: context,
+    });
+
+    const sent = wsInstance.messageQueue.map((m: string) => JSON.parse(m));
+    expect(sent.slice(-2)).toEqual([
+      {
+        event: "pusher:unsubscribe",
+        data: { auth: "", channel: "chatrooms.67890.v2" },
+      },
+      {
+        event: "pusher:subscribe",
+        data: { auth: "", channel: "chatrooms.11111.v2" },
+      },
+    ]);
+  });
+
+  it("should settle a pending connect() with the switched channel", async () => {
+    kickWS = new KickWebSocket({ autoReconnect: false });
+
+    const connecting = kickWS.connect("test-channel");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const wsInstance = socketOf(kickWS)!;
+    expect(wsInstance).toBeTruthy();
+
+    const switching = kickWS.switchChannel("other-channel");
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    wsInstance.simulateMessage(subscriptionAck("chatrooms.11111.v2"));
+
+    await expect(connecting).resolves.toBeUndefined();
+    expect(await switching).toEqual({
+      channel: "other-channel",
+      chatroomId: 11111,
+    });
+    expect(kickWS.getChannelName()).toBe("other-channel");
+  });
+
+  it("should drop late frames from the previous channel", async () => {
+    kickWS = new KickWebSocket({ autoReconnect: false });
+    const received: Array<ChannelContext | undefined> = [];
+    kickWS.onChatMessage((_message, context) => received.push(context));
+
+    await kickWS.connect("test-channel");
+    const wsInstance = socketOf(kickWS)!;
+    const switching = kickWS.switchChannel("other-channel");
+    await flush();
+    wsInstance.simulateMessage(subscriptionAck("chatrooms.11111.v2"));
+    await switching;
+
+    wsInstance.simulateMessage(chatFrame("late"));
+    wsInstance.simulateMessage(
+      chatFrame("current", { channel: "chatrooms.11111.v2" }),
+    );
+
+    expect(received).toEqual([{ channel: "other-channel", chatroomId: 11111 }]);
+  });
+
+  it("should not follow a host announced by the previous channel", async () => {
+    kickWS = new KickWebSocket({ autoReconnect: false, followHosts: true });
+    const changes: unknown[] = [];
+    kickWS.onChannelChanged((data) => changes.push(data));
+
+    await kickWS.connect("test-channel");
+    const wsInstance = socketOf(kickWS)!;
+    const switching = kickWS.switchChannel("other-channel");
+    await flush();
+    wsInstance.simulateMessage(subscriptionAck("chatrooms.11111.v2"));
+    await switching;
+
+    wsInstance.simulateMessage(
+      JSON.stringify({
+        event: "App\\Events\\StreamHostEvent",
+        channel: "chatrooms.67890.v2",
+        data: JSON.stringify({
+          hoster: "test-channel",
+          hosted_channel: "test-channel",
+        }),
+      }),
+    );
+    await flush();
+
+    expect(changes.length).toBe(1);
+    expect(kickWS.getChannelName()).toBe("other-channel");
+  });
+
+  it("should not follow a host queued in middleware across a switch", async () => {
+    kickWS = new KickWebSocket({ autoReconnect: false, followHosts: true });
+    kickWS.use(async (_event, next) => {
+      await flush(30);
+      await next();
+    });
+
+    await kickWS.connect("test-channel");
+    const wsInstance = socketOf(kickWS)!;
+    wsInstance.simulateMessage(
+      JSON.stringify({
+        event: "App\\Events\\StreamHostEvent",
+        channel: "chatrooms.67890.v2",
+        data: JSON.stringify({
+          hoster: "test-channel",
+          hosted_channel: "test-channel",
+        }),
+      }),
+    );
+
+    const switching = kickWS.switchChannel("other-channel");
+    await flush(10);
+    wsInstance.simulateMessage(subscriptionAck("chatrooms.11111.v2"));
+    await switching;
+    await flush(60);
+
+    expect(kickWS.getChannelName()).toBe("other-channel");
+  });
+
+  it("should follow hosts automatically when followHosts is enabled", async () => {
+    kickWS = new KickWebSocket({ autoReconnect: false, followHosts: true });
+    let changed: any = null;
+    kickWS.onChannelChanged((data) => {
+      changed = data;
+    });
+
+    await kickWS.connect("test-channel");
+    const wsInstance = socketOf(kickWS)!;
+
+    wsInstance.simulateMessage(
+      JSON.stringify({
+        event: "App\\Events\\StreamHostEvent",
+        channel: "chatrooms.67890.v2",
+        data: JSON.stringify({
+          hoster: "test-channel",
+          hosted_channel: "other-channel",
+        }),
+      }),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    wsInstance.simulateMessage(subscriptionAck("chatrooms.11111.v2"));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(changed?.to).toEqual({
+      channel: "other-channel",
+      chatroomId: 11111,
+    });
+    expect(kickWS.getChannelId()).toBe(11111);
+  });
+});
+
+describe("Event Filters", () => {
+  const banFrame = JSON.stringify({
+    event: "App\\Events\\UserBannedEvent",
+    channel: "chatrooms.67890.v2",
+    data: JSON.stringify({ username: "spammer", type: "user_banned" }),
+  });
+
+  const connect = async (options: any) => {
+    const kickWS = new KickWebSocket({ autoReconnect: false, ...options });
+    await kickWS.connect("test-channel");
+    return { kickWS, wsInstance: socketOf(kickWS)! };
+  };
+
+  it("should drop events listed in excludeEvents", async () => {
+    const { kickWS, wsInstance } = await connect({
+      excludeEvents: ["UserBanned"],
+    });
+    const received: string[] = [];
+    kickWS.onChatMessage(() => received.push("chat"));
+    kickWS.onUserBanned(() => received.push("ban"));
+
+    wsInstance.simulateMessage(chatFrame("hello", { username: "user" }));
+    wsInstance.simulateMessage(banFrame);
+    await flush();
+
+    expect(received).toEqual(["chat"]);
+    kickWS.disconnect();
+  });
+
+  it("should prefer includeEvents over filteredEvents", async () => {
+    const { kickWS, wsInstance } = await connect({
+      filteredEvents: ["ChatMessage"],
+      includeEvents: ["UserBanned"],
+    });
+    const received: string[] = [];
+    kickWS.onChatMessage(() => received.push("chat"));
+    kickWS.onUserBanned(() => received.push("ban"));
+
+    wsInstance.simulateMessage(chatFrame("hello", { username: "user" }));
+    wsInstance.simulateMessage(banFrame);
+    await flush();
+
+    expect(received).toEqual(["ban"]);
+    kickWS.disconnect();
+  });
+
+  it("should apply eventFilter before middleware and emission", async () => {
+    const { kickWS, wsInstance } = await connect({
+      eventFilter: {
+        and: [
+          { sender: { notIn: ["Bot"] } },
+          { or: [{ subscriber: true }, { regex: "^!" }] },
+        ],
+      },
+    });
+    const seen: string[] = [];
+    const contents: string[] = [];
+    kickWS.use((event, next) => {
+      seen.push(event.type);
+      return next();
+    });
+    kickWS.onChatMessage((message) => contents.push(message.content));
+
+    wsInstance.simulateMessage(chatFrame("!help", { username: "bot" }));
+    wsInstance.simulateMessage(chatFrame("hello", { username: "user" }));
+    wsInstance.simulateMessage(chatFrame("!play", { username: "user" }));
+    wsInstance.simulateMessage(
+      chatFrame("hi", {
+        username: "fan",
+        badges: [{ type: "subscriber", text: "Subscriber" }],
+      }),
+    );
+    wsInstance.simulateMessage(banFrame);
+    await flush();
+
+    expect(contents).toEqual(["!play", "hi"]);
+    expect(seen).toEqual(["ChatMessage", "ChatMessage", "UserBanned"]);
+    kickWS.disconnect();
+  });
+
+  it("should parse and filter events from registered parsers", async () => {
+    registerEventParser("App\\Events\\KicksGifted", {
+      type: "KicksGifted",
+      namespace: "user",
+      parse: (data) => data as { sender: string; amount: number },
+    });
+    const { kickWS, wsInstance } = await connect({
+      includeEvents: ["KicksGifted", "ChatMessage"],
+    });
+    const gifts: unknown[] = [];
+    const namespaced: any[] = [];
+    const received: string[] = [];
+    kickWS.on("KicksGifted", (data) => gifts.push(data));
+    kickWS.onUserEvents((data: any) => namespaced.push(data));
+    kickWS.onUserBanned(() => received.push("ban"));
+
+    wsInstance.simulateMessage(
+      JSON.stringify({
+        event: "App\\Events\\KicksGifted",
+        channel: "chatrooms.67890.v2",
+        data: JSON.stringify({ amount: 100 }),
+      }),
+    );
+    wsInstance.simulateMessage(banFrame);
+    await flush();
+    MessageParser.unregisterEventParser("App\\Events\\KicksGifted");
+
+    expect(gifts).toEqual([{ amount: 100 }]);
+    expect(namespaced).toEqual([{ amount: 100 }]);
+    expect(received).toEqual([]);
+    kickWS.disconnect();
+  });
+
+  it("should reject invalid filter specs", () => {
+    expect(() => new KickWebSocket({ eventFilter: { regex: "(" } })).toThrow(
+      InvalidFilterError,
+    );
+  });
+});
+
+describe("Decode Pipeline", () => {
+  const chatEvent = "App\\Events\\ChatMessageEvent";
+  let original: any;
+  let parseCalls: number;
+
+  const frame = chatFrame("hello", { id: "1" });
+
+  beforeEach(() => {
+    original = MessageParser.getEventParser(chatEvent);
+    parseCalls = 0;
+    registerEventParser(chatEvent, {
+      ...original,
+      parse: (data: unknown) => {
+        parseCalls++;
+        return original.parse(data);
+      },
+    });
+  });
+
+  afterEach(() => {
+    registerEventParser(chatEvent, original);
+  });
+
+  it("should skip parsing events nobody consumes", async () => {
+    const kickWS = new KickWebSocket({
+      autoReconnect: false,
+      enableBuffer: true,
+    });
+    await kickWS.connect("test-channel");
+    const wsInstance = socketOf(kickWS)!;
+
+    wsInstance.simulateMessage(frame);
+    expect(parseCalls).toBe(0);
+
+    const received: string[] = [];
+    kickWS.onChatEvents((message: any) => received.push(message.content));
+    wsInstance.simulateMessage(frame);
+    expect(parseCalls).toBe(1);
+    expect(received).toEqual(["hello"]);
+
+    // El buffer guarda el tipo y no vuelve a parsear
+    expect(kickWS.getRawMessageStats().byType).toEqual({ ChatMessage: 2 });
+    expect(kickWS.exportRawMessagesByEventType("ChatMessage")).toEqual([
+      frame,
+      frame,
+    ]);
+    kickWS.clearRawMessagesByEventType("ChatMessage");
+    expect(kickWS.getRawMessageStats().byType).toEqual({});
+    expect(parseCalls).toBe(1);
+    kickWS.disconnect();
+  });
+
+  it("should parse events when middleware is registered", async () => {
+    const kickWS = new KickWebSocket({ autoReconnect: false });
+    await kickWS.connect("test-channel");
+    const wsInstance = socketOf(kickWS)!;
+    const seen: string[] = [];
+    kickWS.use((event, next) => {
+      seen.push(event.type);
+      return next();
+    });
+
+    wsInstance.simulateMessage(frame);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(parseCalls).toBe(1);
+    expect(seen).toEqual(["ChatMessage"]);
+    kickWS.disconnect();
+  });
+});
+
+describe("Unknown Events", () => {
+  it("should emit unknownEvent with the decoded data and count it", async () => {
+    const kickWS = new KickWebSocket({ autoReconnect: false });
+    await kickWS.connect("test-channel");
+    const wsInstance = socketOf(kickWS)!;
+    const unknown: any[] = [];
+    const contexts: any[] = [];
+    kickWS.onUnknownEvent((event, context) => {
+      unknown.push(event);
+      contexts.push(context);
+    });
+
+    const frame = (data: string) =>
+      JSON.stringify({
+        event: "App\\Events\\KicksGifted",
+        channel: "chatrooms.67890.v2",
+        data,
+      });
+    wsInstance.simulateMessage(frame(JSON.stringify({ amount: 100 })));
+    wsInstance.simulateMessage(frame("not json"));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(unknown).toEqual([
+      {
+        event: "App\\Events\\KicksGifted",
+        channel: "chatrooms.67890.v2",
+        data: { amount: 100 },
+      },
+      {
+        event: "App\\Events\\KicksGifted",
+        channel: "chatrooms.67890.v2",
+        data: "not json",
+      },
+    ]);
+    expect(contexts[0]).toEqual({
+      channel: "test-channel",
+      chatroomId: 67890,
+    });
+    expect(kickWS.getStats().unknownEvents).toEqual({
+      "App\\Events\\KicksGifted": 2,
+    });
+    kickWS.disconnect();
+  });
+});
+
+describe("Middleware", () => {
+  let kickWS: KickWebSocket;
+  let wsInstance: MockWebSocket;
+
+  beforeEach(async () => {
+    kickWS = new KickWebSocket({ autoReconnect: false });
+    await kickWS.connect("test-channel");
+    wsInstance = socketOf(kickWS)!;
+  });
+
+  afterEach(() => {
+    kickWS.disconnect();
+  });
+
+  it("should run middleware in order with the raw frame and context", async () => {
+    const calls: string[] = [];
+    let seen: any = null;
+
+    kickWS.use(async (event, next) => {
+      calls.push("first");
+      seen = event;
+      await next();
+      calls.push("first:after");
+    });
+    kickWS.use((event, next) => {
+      calls.push("second");
+      return next();
+    });
+    kickWS.onChatMessage(() => calls.push("emit"));
+
+    wsInstance.simulateMessage(chatFrame("hello"));
+    await flush();
+
+    expect(calls).toEqual(["first", "second", "emit", "first:after"]);
+    expect(seen.type).toBe("ChatMessage");
+    expect(seen.raw).toBe(chatFrame("hello"));
+    expect(seen.context).toEqual({
+      channel: "test-channel",
+      chatroomId: 67890,
+    });
+  });
+
+  it("should drop queued events after disconnect", async () => {
+    const contents: string[] = [];
+    kickWS.use(async (_event, next) => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await next();
+    });
+    kickWS.onChatMessage((message) => contents.push(message.content));
+
+    wsInstance.simulateMessage(chatFrame("one"));
+    wsInstance.simulateMessage(chatFrame("two"));
+    wsInstance.simulateMessage(chatFrame("three"));
+    kickWS.disconnect();
+    await flush();
+
+    expect(contents).toEqual([]);
+  });
+
+  it("should let middleware rewrite, suppress and fan out events", async () => {
+    const contents: string[] = [];
+    const banned: string[] = [];
+
+    kickWS.use(async (event, next) => {
+      if (event.type !== "ChatMessage") return next();
+      const message = event.data;
+      if (message.content === "spam") return;
+      message.content = message.content.toUpperCase();
+      await next();
+      await next({
+        ...event,
+        type: "UserBanned",
+        data: { username: message.sender.username, type: "user_banned" },
+      });
+    });
+    kickWS.onChatMessage((message) => contents.push(message.content));
+    kickWS.onUserBanned((ban) => banned.push(ban.username));
+
+    wsInstance.simulateMessage(chatFrame("spam"));
+    wsInstance.simulateMessage(chatFrame("hello"));
+    await flush();
+
+    expect(contents).toEqual(["HELLO"]);
+    expect(banned).toEqual(["user"]);
+  });
+
+  it("should isolate middleware errors and keep delivering events", async () => {
+    const errors: Error[] = [];
+    const contents: string[] = [];
+
+    kickWS.onError((error) => errors.push(error));
+    kickWS.use(() => {
+      throw new Error("broken middleware");
+    });
+    kickWS.onChatMessage((message) => contents.push(message.content));
+
+    wsInstance.simulateMessage(chatFrame("hello"));
+    await flush();
+
+    expect(contents).toEqual(["hello"]);
+    expect(errors[0]).toBeInstanceOf(MiddlewareError);
+    expect(errors[0].message).toContain("broken middleware");
+  });
+
+  it("should preserve event order with async middleware", async () => {
+    const contents: string[] = [];
+    const remove = kickWS.use(async (event, next) => {
+      const delay =
+        event.type === "ChatMessage" && event.data.content === "first" ? 15 : 0;
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      await next();
+    });
+    kickWS.onChatMessage((message) => contents.push(message.content));
+
+    wsInstance.simulateMessage(chatFrame("first"));
+    wsInstance.simulateMessage(chatFrame("second"));
+    await flush();
+    await flush();
+
+    expect(contents).toEqual(["first", "second"]);
+
+    remove();
+    wsInstance.simulateMessage(chatFrame("sync"));
+    expect(contents).toEqual(["first", "second", "sync"]);
+  });
+});
+
+describe("Connection Lifecycle", () => {
+  it("should emit stateChange events for each transition", async () => {
+    const kickWS = new KickWebSocket({ autoReconnect: false });
+    const changes: any[] = [];
+    kickWS.onStateChange((data) => {
+      changes.push(data);
+    });
+
+    await kickWS.connect("test-channel");
+    kickWS.disconnect();
+
+    expect(changes.map((c) => [c.from, c.to])).toEqual([
+      ["disconnected", "connecting"],
+      ["connecting", "connected"],
+      ["connected", "disconnected"],
+    ]);
+    expect(changes[0].at).toBeInstanceOf(Date);
+    expect(changes[1].reason).toBe("Subscribed to test-channel");
+  });
+
+  it("should record a bounded connection history", async () => {
+    const kickWS = new KickWebSocket({
+      historySize: 2,
+      reconnectPolicy: { initialDelay: 10, jitter: false },
+    });
+
+    await kickWS.connect("test-channel");
+    for (let i = 0; i < 2; i++) {
+      socketOf(kickWS)!.close(1006, "Abnormal closure");
+      await new Promise((resolve) => setTimeout(resolve, 120));
+    }
+
+    const history = kickWS.getStats().connectionHistory;
+    expect(history.length).toBe(2);
+    expect(history[0].channel).toBe("test-channel");
+    expect(history[0].disconnectedAt).toBeInstanceOf(Date);
+    expect(history[0].disconnect).toEqual({
+      code: 1006,
+      reason: "Abnormal closure",
+      category: "transient",
+      willReconnect: true,
+    });
+    expect(history[0].reconnectAttempts).toBe(1);
+    expect(history[1].reconnectAttempts).toBe(2);
+    expect(history[1].disconnectedAt).toBeNull();
+    expect(history[1].duration).toBeGreaterThanOrEqual(0);
+
+    kickWS.disconnect();
+    const last = kickWS.getConnectionHistory()[1];
+    expect(last.disconnect?.category).toBe("manual");
+  });
+
+  it("should cancel a pending reconnect when connect() is called", async () => {
+    const sockets: MockWebSocket[] = [];
+    const kickWS = new KickWebSocket({
+      reconnectPolicy: { initialDelay: 200, jitter: false },
+      webSocketFactory: (url) => {
+        const ws = new MockWebSocket(url);
+        sockets.push(ws);
+        return ws;
+      },
+    });
+
+    await kickWS.connect("test-channel");
+    sockets[0].close(1006, "Abnormal closure");
+    expect(kickWS.getConnectionState()).toBe("reconnecting");
+
+    await kickWS.connect("test-channel");
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    expect(sockets.length).toBe(2);
+    expect(kickWS.isConnected()).toBe(true);
+    kickWS.disconnect();
+  });
+
+  it("should detach the previous socket before creating a new one", async () => {
+    const sockets: MockWebSocket[] = [];
+    const kickWS = new KickWebSocket({
+      reconnectPolicy: { initialDelay: 200, jitter: false },
+      webSocketFactory: (url) => {
+        const ws = new MockWebSocket(url);
+        sockets.push(ws);
+        return ws;
+      },
+    });
+    const disconnects: any[] = [];
+    kickWS.onDisconnect((data) => disconnects.push(data));
+
+    await kickWS.connect("test-channel");
+    sockets[0].close(1006, "Abnormal closure");
+    await kickWS.connect("test-channel");
+
+    // Un cierre tardío del socket anterior no afecta a la nueva conexión
+    expect(sockets[0].onclose).toBeNull();
+    expect(sockets[0].onmessage).toBeNull();
+    sockets[0].close(1006, "Abnormal closure");
+
+    expect(disconnects.length).toBe(1);
+    expect(kickWS.isConnected()).toBe(true);
+    kickWS.disconnect();
+  });
+});
+
+describe("Cancellation", () => {
+  it("should abort an in-flight channel lookup", async () => {
+    let lookupSignal: AbortSignal | undefined;
+    const kickWS = new KickWebSocket({
+      autoReconnect: false,
+      fetch: (_url, init) =>
+        new Promise((_resolve, reject) => {
+          lookupSignal = init?.signal;
+          init?.signal?.addEventListener("abort", () =>
+            reject(new Error("fetch aborted")),
+          );
+        }),
+    });
+
+    const controller = new AbortController();
+    const connecting = kickWS.connect("test-channel", {
+      signal: controller.signal,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort();
+
+    await expect(connecting).rejects.toBeInstanceOf(AbortError);
+    expect(lookupSignal?.aborted).toBe(true);
+    expect(socketOf(kickWS)).toBeNull();
+    expect(kickWS.getConnectionState()).toBe("disconnected");
+  });
+
+  it("should reject immediately with an already aborted signal", async () => {
+    let fetchCalls = 0;
+    const kickWS = new KickWebSocket({
+      autoReconnect: false,
+      fetch: async () => {
+        fetchCalls++;
+        throw new Error("fetch should not be used");
+      },
+    });
+
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      kickWS.connect("test-channel", { signal: controller.signal }),
+    ).rejects.toBeInstanceOf(AbortError);
+    expect(fetchCalls).toBe(0);
+  });
+
+  it("should close a half-open socket when the instance signal aborts", async () => {
+    const controller = new AbortController();
+    const kickWS = new KickWebSocket({
+      autoReconnect: false,
+      signal: controller.signal,
+    });
+
+    const connecting = kickWS.connect({ chatroomId: 67890 });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const wsInstance = socketOf(kickWS)!;
+    expect(wsInstance.readyState).toBe(MockWebSocket.CONNECTING);
+
+    controller.abort();
+
+    await expect(connecting).rejects.toBeInstanceOf(AbortError);
+    expect(wsInstance.readyState).toBe(MockWebSocket.CLOSED);
+    expect(socketOf(kickWS)).toBeNull();
+  });
+
+  it("should cancel pending reconnect timers when aborted", async () => {
+    const controller = new AbortController();
+    const kickWS = new KickWebSocket({
+      reconnectPolicy: { initialDelay: 50, jitter: false },
+    });
+
+    await kickWS.connect("test-channel", { signal: controller.signal });
+    socketOf(kickWS)!.close(1006, "Abnormal closure");
+    expect(kickWS.getConnectionState()).toBe("reconnecting");
+
+    controller.abort();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect((kickWS as any).reconnectTimer).toBeNull();
+    expect(socketOf(kickWS)).toBeNull();
+    expect(kickWS.getConnectionState()).toBe("disconnected");
+  });
+
+  it("should not assign a socket when disconnect races a pending connection", async () => {
+    const sockets: MockWebSocket[] = [];
+    const kickWS = new KickWebSocket({
+      autoReconnect: false,
+      webSocketFactory: (url) => {
+        const socket = new MockWebSocket(url);
+        sockets.push(socket);
+        return socket;
+      },
+    });
+
+    const connecting = kickWS.connect("test-channel");
+    kickWS.disconnect();
+
+    await expect(connecting).rejects.toBeInstanceOf(AbortError);
+    expect(sockets.length).toBe(0);
+    expect(socketOf(kickWS)).toBeNull();
+  });
+});
+
 describe("WebSocket Error Handling", () => {
   it("should handle WebSocket connection errors", async () => {
     const kickWS = new KickWebSocket();
@@ -651,7 +2064,7 @@ describe("WebSocket Error Handling", () => {
       }
     }
 
-    global.WebSocket = ErrorWebSocket as any;
+    useWebSocket(ErrorWebSocket);
     kickWS.updateOptions({ autoReconnect: false }); // Disable auto-reconnect for this test
 
     // With autoReconnect disabled, the connection will fail but not transition to disconnected
@@ -673,7 +2086,7 @@ describe("WebSocket Error Handling", () => {
 
   it("should handle malformed messages gracefully", async () => {
     // Reset WebSocket to the normal MockWebSocket
-    global.WebSocket = MockWebSocket as any;
+    useWebSocket(MockWebSocket);
 
     const kickWS = new KickWebSocket({
       debug: false,
@@ -693,7 +2106,7 @@ describe("WebSocket Error Handling", () => {
     // Connection should be established
     expect(kickWS.isConnected()).toBe(true);
 
-    const wsInstance = (kickWS as any).ws;
+    const wsInstance = socketOf(kickWS)!;
 
     // Send malformed messages
     const malformedMessages = [
@@ -0,0 +1,39 @@
+// Middleware de los ejemplos del README: comprobar `type` acota `data`
+import { KickWebSocket } from "../../src/index.js";
+import type { MiddlewareEvent } from "../../src/index.js";
+
+declare function isSpam(content: string): boolean;
+
+const kickWS = new KickWebSocket();
+
+// Normalization: mutate the event in place
+kickWS.use(async (event, next) => {
+  if (event.type === "ChatMessage") {
+    event.data = { ...event.data, content: event.data.content.trim() };
+  }
+  await next();
+});
+
+// Moderation: drop messages
+kickWS.use(async (event, next) => {
+  if (event.type === "ChatMessage" && isSpam(event.data.content)) return;
+  await next();
+});
+
+// Fan out a synthetic event
+kickWS.use(async (event, next) => {
+  await next();
+  if (event.type === "ChatMessage" && event.data.content.startsWith("!ban ")) {
+    await next({
+      ...event,
+      type: "UserBanned",
+      data: { username: event.data.content.slice(5), type: "user_banned" },
+    });
+  }
+});
+
+// Con un tipo concreto el evento no es una unión
+const chat: MiddlewareEvent<"ChatMessage"> =
+  {} as MiddlewareEvent<"ChatMessage">;
+const content: string = chat.data.content;
+void content;
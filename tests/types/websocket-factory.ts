@@ -0,0 +1,30 @@
+// Fábricas de WebSocket que deben aceptarse sin casts con strict: true
+import { KickWebSocket } from "../../src/index.js";
+import type { WebSocketLike } from "../../src/index.js";
+
+// WebSocket del navegador, como en el ejemplo del README
+new KickWebSocket({
+  webSocketFactory: (url) => new WebSocket(url),
+});
+
+// Objeto con la forma de un WebSocket del DOM
+class DomShapedSocket {
+  readyState = 0;
+  onopen: ((this: DomShapedSocket, event: Event) => any) | null = null;
+  onmessage: ((this: DomShapedSocket, event: MessageEvent) => any) | null =
+    null;
+  onclose: ((this: DomShapedSocket, event: CloseEvent) => any) | null = null;
+  onerror: ((this: DomShapedSocket, event: Event) => any) | null = null;
+
+  constructor(readonly url: string) {}
+
+  send(_data: string): void {}
+
+  close(_code?: number, _reason?: string): void {}
+}
+
+const socket: WebSocketLike = new DomShapedSocket("wss://example.test");
+new KickWebSocket({
+  webSocketFactory: (url) => new DomShapedSocket(url),
+});
+void socket;
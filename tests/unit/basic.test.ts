@@ -1,6 +1,21 @@
 // Pruebas básicas para la librería Kick WebSocket Lite
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
-import { KickWebSocket, EventEmitter, MessageParser } from "../../src/index.js";
+import {
+  KickWebSocket,
+  EventEmitter,
+  MessageParser,
+  registerEventParser,
+  AbortError,
+  WaitForTimeoutError,
+} from "../../src/index.js";
+import type { UserBannedEvent } from "../../src/index.js";
+
+// Evento propio registrado en las pruebas del registro de parsers
+declare module "../../src/types.js" {
+  interface EventDataMap {
+    KicksGifted: { sender: string; amount: number };
+  }
+}
 
 describe("EventEmitter", () => {
   let emitter: EventEmitter;
@@ -53,6 +68,193 @@ describe("EventEmitter", () => {
 
     expect(count).toBe(1);
   });
+
+  it("debería pasar el tipo de evento a los listeners comodín", () => {
+    const received: unknown[][] = [];
+
+    emitter.on("*", (type: string, data: string) =>
+      received.push([type, data]),
+    );
+    emitter.emit("uno", "a");
+    emitter.emit("dos", "b");
+
+    expect(received).toEqual([
+      ["uno", "a"],
+      ["dos", "b"],
+    ]);
+  });
+
+  it("debería soportar patrones de grupo", () => {
+    const types: string[] = [];
+
+    emitter.on("Poll*", (type: string) => types.push(type));
+    emitter.emit("PollUpdate");
+    emitter.emit("PollDelete");
+    emitter.emit("ChatMessage");
+
+    expect(types).toEqual(["PollUpdate", "PollDelete"]);
+  });
+
+  it("debería avisar una vez al superar maxListeners", () => {
+    const warnings: any[] = [];
+    emitter.setMaxListeners(2);
+    emitter.on("warning", (data: any) => warnings.push(data));
+
+    for (let i = 0; i < 4; i++) {
+      emitter.on("chat", () => {});
+    }
+
+    expect(warnings.length).toBe(1);
+    expect(warnings[0]).toMatchObject({ event: "chat", count: 3, limit: 2 });
+    expect(warnings[0].stack.split("\n")[0]).toContain("basic.test.ts");
+  });
+
+  it("debería indicar si un evento tiene listeners directos o por patrón", () => {
+    expect(emitter.hasListeners("Poll:update")).toBe(false);
+
+    emitter.on("Poll*", () => {});
+    expect(emitter.hasListeners("Poll:update")).toBe(true);
+    expect(emitter.hasListeners("chat")).toBe(false);
+
+    emitter.on("chat", () => {});
+    expect(emitter.hasListeners("chat")).toBe(true);
+  });
+
+  it("debería exponer listeners y rawListeners", () => {
+    const handler = () => {};
+    const onceHandler = () => {};
+
+    emitter.on("evento", handler);
+    emitter.once("evento", onceHandler);
+
+    const raw = emitter.rawListeners("evento");
+    expect(emitter.listeners("evento")).toEqual([handler, onceHandler]);
+    expect(raw[0]).toBe(handler);
+    expect(raw[1]).not.toBe(onceHandler);
+    expect((raw[1] as { listener?: Function }).listener).toBe(onceHandler);
+
+    emitter.off("evento", onceHandler);
+    expect(emitter.listeners("evento")).toEqual([handler]);
+  });
+
+  it("debería ejecutar los listeners por prioridad conservando el orden", () => {
+    const order: string[] = [];
+
+    emitter.on("evento", () => order.push("a"));
+    emitter.on("evento", () => order.push("alta"), { priority: 10 });
+    emitter.on("evento", () => order.push("b"));
+    emitter.on("evento", () => order.push("baja"), { priority: -5 });
+    emitter.prependListener("evento", () => order.push("primero"));
+    emitter.emit("evento");
+
+    expect(order).toEqual(["alta", "primero", "a", "b", "baja"]);
+  });
+
+  it("debería detener la propagación a listeners de menor prioridad", () => {
+    const received: string[] = [];
+
+    emitter.on("*", (type: string) => received.push(`comodín ${type}`));
+    emitter.on(
+      "mensaje",
+      (data: string, control: any) => {
+        if (data === "spam") control.stopPropagation();
+      },
+      { priority: 100, control: true },
+    );
+    emitter.on("mensaje", (data: string) => received.push(data));
+
+    emitter.emit("mensaje", "hola");
+    emitter.emit("mensaje", "spam");
+
+    expect(received).toEqual(["hola", "comodín mensaje"]);
+  });
+
+  it("debería entregar con emit() solo los argumentos emitidos", () => {
+    const received: unknown[][] = [];
+
+    emitter.on("evento", (...args: unknown[]) => received.push(args));
+    emitter.on("*", (...args: unknown[]) => received.push(args));
+    emitter.emit("evento", 1, 2);
+
+    expect(received).toEqual([
+      [1, 2],
+      ["evento", 1, 2],
+    ]);
+  });
+
+  it("debería mantener el orden al registrar listeners tras emitir", () => {
+    const order: string[] = [];
+
+    emitter.on("evento", () => order.push("a"));
+    emitter.on("evento", () => order.push("alta"), { priority: 10 });
+    emitter.on("*", () => order.push("comodín"), { priority: 5 });
+    emitter.emit("evento");
+
+    emitter.on("evento", () => order.push("b"));
+    emitter.prependListener("evento", () => order.push("primero"));
+    emitter.on("evento", () => order.push("media"), { priority: 5 });
+    order.length = 0;
+    emitter.emit("evento");
+
+    expect(order).toEqual(["alta", "media", "comodín", "primero", "a", "b"]);
+    expect(emitter.listenerCount("evento")).toBe(5);
+  });
+
+  it("debería esperar un evento con waitFor", async () => {
+    const waiting = emitter.waitFor("evento", {
+      filter: (data: number) => data > 1,
+    });
+
+    emitter.emit("evento", 1);
+    emitter.emit("evento", 2);
+
+    expect(await waiting).toBe(2);
+    expect(emitter.listenerCount("evento")).toBe(0);
+  });
+
+  it("debería rechazar waitFor al agotarse el timeout", async () => {
+    await expect(emitter.waitFor("evento", { timeout: 10 })).rejects.toThrow(
+      WaitForTimeoutError,
+    );
+    expect(emitter.listenerCount("evento")).toBe(0);
+  });
+
+  it("debería rechazar waitFor al abortarse la señal", async () => {
+    const controller = new AbortController();
+    const waiting = emitter.waitFor("evento", {
+      timeout: 1000,
+      signal: controller.signal,
+    });
+
+    controller.abort();
+
+    await expect(waiting).rejects.toBeInstanceOf(AbortError);
+    expect(emitter.listenerCount("evento")).toBe(0);
+  });
+
+  it("debería rechazar waitFor si el filtro lanza un error", async () => {
+    const waiting = emitter.waitFor("evento", {
+      filter: () => {
+        throw new Error("Filtro roto");
+      },
+    });
+
+    emitter.emit("evento", 1);
+
+    await expect(waiting).rejects.toThrow("Filtro roto");
+    expect(emitter.listenerCount("evento")).toBe(0);
+  });
+
+  it("debería eliminar listeners de patrones", () => {
+    let count = 0;
+    const handler = () => count++;
+
+    emitter.on("*", handler);
+    emitter.off("*", handler);
+
+    expect(emitter.emit("evento")).toBe(false);
+    expect(count).toBe(0);
+  });
 });
 
 describe("MessageParser", () => {
@@ -132,6 +334,24 @@ describe("MessageParser", () => {
     expect((parsed!.data as any).username).toBe("banned_user");
   });
 
+  it("debería decodificar el envoltorio sin parsear los datos", () => {
+    const frame = MessageParser.decodeFrame(
+      JSON.stringify({
+        event: "App\\Events\\UserBannedEvent",
+        channel: "chatrooms.1.v2",
+        data: JSON.stringify({ username: "banned_user" }),
+      }),
+    );
+
+    expect(frame!.event).toBe("App\\Events\\UserBannedEvent");
+    expect(typeof frame!.data).toBe("string");
+    expect(MessageParser.parseFrame(frame!)).toEqual({
+      type: "UserBanned",
+      data: { username: "banned_user", type: "user_banned" },
+    });
+    expect(MessageParser.decodeFrame("invalid json")).toBeNull();
+  });
+
   it("debería ignorar mensajes del sistema pusher", () => {
     const rawMessage = JSON.stringify({
       event: "pusher:connection_established",
@@ -159,6 +379,58 @@ describe("MessageParser", () => {
     expect(MessageParser.isValidMessage(validMessage)).toBe(true);
     expect(MessageParser.isValidMessage(invalidMessage)).toBe(false);
   });
+
+  it("debería usar los parsers registrados para eventos nuevos", () => {
+    registerEventParser("App\\Events\\KicksGifted", {
+      type: "KicksGifted",
+      parse: (data: any) => ({
+        sender: data.sender.username,
+        amount: data.gift.amount,
+      }),
+    });
+
+    const parsed = MessageParser.parseMessage(
+      JSON.stringify({
+        event: "App\\Events\\KicksGifted",
+        data: JSON.stringify({
+          sender: { username: "donante" },
+          gift: { amount: 100 },
+        }),
+      }),
+    );
+    MessageParser.unregisterEventParser("App\\Events\\KicksGifted");
+
+    expect(parsed).toEqual({
+      type: "KicksGifted",
+      data: { sender: "donante", amount: 100 },
+    });
+    expect(MessageParser.getEventParser("App\\Events\\KicksGifted")).toBe(
+      undefined,
+    );
+  });
+
+  it("debería permitir reemplazar un parser existente", () => {
+    const original = MessageParser.getEventParser(
+      "App\\Events\\UserBannedEvent",
+    )!;
+    registerEventParser("App\\Events\\UserBannedEvent", {
+      type: "UserBanned",
+      parse: (data: any) => ({
+        username: data.user.username,
+        type: "user_banned",
+      }),
+    });
+
+    const parsed = MessageParser.parseMessage(
+      JSON.stringify({
+        event: "App\\Events\\UserBannedEvent",
+        data: JSON.stringify({ user: { username: "baneado" } }),
+      }),
+    );
+    registerEventParser("App\\Events\\UserBannedEvent", original);
+
+    expect((parsed!.data as UserBannedEvent).username).toBe("baneado");
+  });
 });
 
 describe("KickWebSocket", () => {
@@ -243,6 +515,85 @@ describe("KickWebSocket", () => {
     expect(() => kickWS.clearMessageBuffer()).not.toThrow();
   });
 
+  it("debería agrupar eventos por namespace", () => {
+    const chat: unknown[] = [];
+    const all: unknown[] = [];
+    const context = { channel: "canal", chatroomId: 1 };
+
+    kickWS.onChatEvents((data) => chat.push(data));
+    const stop = kickWS.onAllEvents((data) => all.push(data));
+
+    kickWS.emit("MessageDeleted", { message_id: "1" }, context);
+    kickWS.emit("UserBanned", { username: "spammer" });
+    kickWS.emit("stateChange", { from: "connecting", to: "connected" });
+    stop();
+    kickWS.emit("ChatMessage", { id: "2" });
+
+    expect(chat).toEqual([{ message_id: "1" }, { id: "2" }]);
+    expect(all.length).toBe(3);
+  });
+
+  it("debería pasar el control de propagación tras el contexto", () => {
+    const displayed: unknown[] = [];
+
+    kickWS.onChatMessage((message) => displayed.push(message));
+    kickWS.on(
+      "chat:*",
+      (_type, _data, _context, control) => control?.stopPropagation(),
+      { priority: 10, control: true },
+    );
+    kickWS.emit("ChatMessage", { id: "1" });
+
+    expect(displayed).toEqual([]);
+  });
+
+  it("debería señalar en el aviso de maxListeners la línea del llamador", () => {
+    const stacks: string[] = [];
+    kickWS.setMaxListeners(1);
+    kickWS.on("warning", (warning) => stacks.push(warning.stack ?? ""));
+
+    kickWS.on("ChatMessage", () => {});
+    kickWS.once("ChatMessage", () => {});
+
+    expect(stacks[0].split("\n")[0]).toContain("basic.test.ts");
+  });
+
+  it("debería entregar el control solo a los listeners que lo piden", () => {
+    const received: unknown[][] = [];
+    const context = { channel: "canal", chatroomId: 1 };
+
+    kickWS.on("ChatMessage", (...args: unknown[]) => received.push(args));
+    kickWS.emit("ChatMessage", { id: "1" });
+    kickWS.emit("ChatMessage", { id: "2" }, context);
+
+    expect(received).toEqual([[{ id: "1" }], [{ id: "2" }, context]]);
+  });
+
+  it("debería esperar eventos tipados con waitFor", async () => {
+    const waiting = kickWS.waitFor("PollDelete", {
+      filter: (poll) => poll.poll_id === "123",
+    });
+
+    kickWS.emit("PollDelete", { poll_id: "1", type: "poll_delete" });
+    kickWS.emit("PollDelete", { poll_id: "123", type: "poll_delete" });
+
+    expect((await waiting).poll_id).toBe("123");
+  });
+
+  it("debería escuchar namespaces con on()", () => {
+    const received: unknown[][] = [];
+
+    kickWS.on("user:*", (type, data, context) =>
+      received.push([type, data, context]),
+    );
+    kickWS.emit("Subscription", { username: "sub" });
+    kickWS.emit("PollUpdate", { poll_id: 1 });
+
+    expect(received).toEqual([
+      ["Subscription", { username: "sub" }, undefined],
+    ]);
+  });
+
   it("debería crear instancia preconfigurada", () => {
     expect(() => {
       const debug = KickWebSocket.createDebug();
@@ -333,6 +684,68 @@ describe("Error Handling", () => {
     console.error = originalConsoleError;
   });
 
+  it("debería emitir listenerError en lugar de usar console.error", () => {
+    const emitter = new EventEmitter();
+    const failing = () => {
+      throw new Error("Fallo");
+    };
+    let payload: any = null;
+    let errorLogged = false;
+
+    const originalConsoleError = console.error;
+    console.error = () => {
+      errorLogged = true;
+    };
+
+    emitter.on("listenerError", (data: any) => {
+      payload = data;
+    });
+    emitter.on("evento", failing);
+    emitter.emit("evento");
+
+    console.error = originalConsoleError;
+
+    expect(errorLogged).toBe(false);
+    expect(payload.event).toBe("evento");
+    expect(payload.listener).toBe(failing);
+    expect(payload.error.message).toBe("Fallo");
+    expect(emitter.getListenerFailureCount()).toBe(1);
+  });
+
+  it("debería relanzar los errores con la estrategia rethrow", () => {
+    const kickWS = new KickWebSocket({ listenerErrorStrategy: "rethrow" });
+    let failures = 0;
+
+    kickWS.onListenerError(() => failures++);
+    kickWS.on("ready", () => {
+      throw new Error("Fallo en desarrollo");
+    });
+
+    expect(() => kickWS.emit("ready", { channel: "canal" })).toThrow(
+      "Fallo en desarrollo",
+    );
+    expect(failures).toBe(1);
+    expect(kickWS.getStats().listenerFailures).toBe(1);
+  });
+
+  it("debería capturar promesas rechazadas de listeners asíncronos", async () => {
+    const emitter = new EventEmitter();
+    let payload: any = null;
+
+    emitter.on("listenerError", (data: any) => {
+      payload = data;
+    });
+    emitter.on("evento", async () => {
+      throw new Error("Fallo asíncrono");
+    });
+    emitter.emit("evento");
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(payload?.error.message).toBe("Fallo asíncrono");
+    expect(emitter.getListenerFailureCount()).toBe(1);
+  });
+
   it("debería manejar mensajes malformados", () => {
     const malformedMessages = [
       "",
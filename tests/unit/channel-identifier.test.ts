@@ -0,0 +1,73 @@
+// Pruebas de normalización de identificadores de canal
+import { describe, it, expect } from "bun:test";
+import {
+  ChannelIdentifier,
+  InvalidChannelError,
+  KickWebSocket,
+} from "../../src/index.js";
+
+describe("ChannelIdentifier", () => {
+  it("debería normalizar slugs con espacios y mayúsculas", () => {
+    expect(ChannelIdentifier.normalize(" XQC ")).toBe("xqc");
+    expect(ChannelIdentifier.normalize("@Some_User-1")).toBe("some_user-1");
+  });
+
+  it("debería extraer el slug de URLs de canal", () => {
+    expect(ChannelIdentifier.normalize("https://kick.com/xqc")).toBe("xqc");
+    expect(ChannelIdentifier.normalize("https://www.kick.com/XQC/")).toBe(
+      "xqc",
+    );
+    expect(ChannelIdentifier.normalize("kick.com/xqc?tab=chat")).toBe("xqc");
+  });
+
+  it("debería extraer el slug de enlaces popout", () => {
+    expect(ChannelIdentifier.normalize("kick.com/popout/xqc/chat")).toBe("xqc");
+    expect(
+      ChannelIdentifier.normalize("https://kick.com/popout/xqc/chat"),
+    ).toBe("xqc");
+  });
+
+  it("debería reconocer ids numéricos", () => {
+    expect(ChannelIdentifier.parse("668")).toEqual({ kind: "id", id: 668 });
+    expect(() => ChannelIdentifier.normalize("668")).toThrow(
+      InvalidChannelError,
+    );
+  });
+
+  it("debería rechazar identificadores inválidos", () => {
+    const invalid = [
+      "",
+      "   ",
+      "xqc/chat",
+      "bad channel",
+      "canal$",
+      "https://twitch.tv/xqc",
+      "https://kick.com/",
+      "kick.com/%E0%A4%A",
+      "https://kick.com/%ZZ",
+    ];
+
+    invalid.forEach((input) => {
+      expect(() => ChannelIdentifier.parse(input)).toThrow(InvalidChannelError);
+      expect(ChannelIdentifier.isValid(input)).toBe(false);
+    });
+  });
+
+  it("debería rechazar canales inválidos en connect() sin peticiones de red", async () => {
+    let fetchCalls = 0;
+    const kickWS = new KickWebSocket({
+      autoReconnect: false,
+      fetch: async () => {
+        fetchCalls++;
+        throw new Error("fetch should not be used");
+      },
+    });
+
+    const error = await kickWS.connect("bad channel!").catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidChannelError);
+    expect(error.input).toBe("bad channel!");
+    expect(fetchCalls).toBe(0);
+    expect(kickWS.getConnectionState()).toBe("disconnected");
+  });
+});
@@ -0,0 +1,130 @@
+// Pruebas de los resolvers de canales
+import { describe, it, expect } from "bun:test";
+import {
+  KickApiChannelResolver,
+  FallbackChannelResolver,
+  CachingChannelResolver,
+} from "../../src/index.js";
+import type { ChannelResolver, ResolvedChannel } from "../../src/index.js";
+
+// Resolver de prueba que cuenta las llamadas
+const createCountingResolver = (chatroomId: number) => {
+  const resolver = {
+    calls: 0,
+    async resolve(slug: string): Promise<ResolvedChannel> {
+      resolver.calls++;
+      return { slug, chatroomId };
+    },
+  };
+  return resolver;
+};
+
+// Almacenamiento en memoria compatible con localStorage
+const createMemoryStorage = () => {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      data.set(key, value);
+    },
+    removeItem: (key: string) => {
+      data.delete(key);
+    },
+  };
+};
+
+describe("KickApiChannelResolver", () => {
+  it("debería resolver el chatroom desde la API", async () => {
+    const urls: string[] = [];
+    const resolver = new KickApiChannelResolver({
+      fetch: async (url) => {
+        urls.push(url);
+        return new Response(
+          JSON.stringify({ id: 1, slug: "xqc", chatroom: { id: 668 } }),
+        );
+      },
+    });
+
+    const channel = await resolver.resolve("xqc");
+
+    expect(urls).toEqual(["https://kick.com/api/v2/channels/xqc"]);
+    expect(channel).toEqual({ slug: "xqc", chatroomId: 668, channelId: 1 });
+  });
+
+  it("debería fallar con respuestas HTTP de error", async () => {
+    const resolver = new KickApiChannelResolver({
+      fetch: async () =>
+        new Response("Forbidden", { status: 403, statusText: "Forbidden" }),
+    });
+
+    await expect(resolver.resolve("xqc")).rejects.toThrow("HTTP 403");
+  });
+});
+
+describe("FallbackChannelResolver", () => {
+  it("debería probar el siguiente resolver cuando uno falla", async () => {
+    const failing: ChannelResolver = {
+      resolve: async () => {
+        throw new Error("Cloudflare challenge");
+      },
+    };
+    const working = createCountingResolver(42);
+    const resolver = new FallbackChannelResolver([failing, working]);
+
+    expect(await resolver.resolve("xqc")).toEqual({
+      slug: "xqc",
+      chatroomId: 42,
+    });
+  });
+
+  it("debería reunir los errores si todos fallan", async () => {
+    const resolver = new FallbackChannelResolver([
+      {
+        resolve: async () => {
+          throw new Error("first");
+        },
+      },
+      {
+        resolve: async () => {
+          throw new Error("second");
+        },
+      },
+    ]);
+
+    await expect(resolver.resolve("xqc")).rejects.toThrow(/first.*second/);
+  });
+});
+
+describe("CachingChannelResolver", () => {
+  it("debería cachear resoluciones durante el TTL", async () => {
+    const inner = createCountingResolver(42);
+    const resolver = new CachingChannelResolver(inner, { ttl: 50 });
+
+    await resolver.resolve("xqc");
+    await resolver.resolve("XQC");
+    expect(inner.calls).toBe(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    await resolver.resolve("xqc");
+    expect(inner.calls).toBe(2);
+  });
+
+  it("debería persistir y recuperar resoluciones del almacenamiento", async () => {
+    const storage = createMemoryStorage();
+    const first = new CachingChannelResolver(createCountingResolver(42), {
+      storage,
+    });
+    await first.resolve("xqc");
+    expect(storage.data.has("kick-wss:channel:xqc")).toBe(true);
+
+    // Una instancia nueva usa el valor persistido sin consultar
+    const inner = createCountingResolver(99);
+    const second = new CachingChannelResolver(inner, { storage });
+    expect((await second.resolve("xqc")).chatroomId).toBe(42);
+    expect(inner.calls).toBe(0);
+
+    second.invalidate("xqc");
+    expect((await second.resolve("xqc")).chatroomId).toBe(99);
+  });
+});
@@ -0,0 +1,154 @@
+// Pruebas del filtro declarativo de eventos
+import { describe, it, expect } from "bun:test";
+import { EventFilter, InvalidFilterError } from "../../src/index.js";
+import type { EventFilterSpec } from "../../src/index.js";
+
+const createChatMessage = (
+  username: string,
+  content: string,
+  badges: any[] = [],
+) => ({
+  id: "1",
+  content,
+  type: "message" as const,
+  created_at: "2024-01-01T00:00:00Z",
+  sender: {
+    id: 1,
+    username,
+    slug: username,
+    identity: { color: "#ffffff", badges },
+  },
+  chatroom: { id: 1 },
+});
+
+const matches = (spec: EventFilterSpec, type: string, data: unknown) =>
+  new EventFilter(spec).matches(type, data);
+
+describe("EventFilter", () => {
+  it("debería filtrar por tipo de evento", () => {
+    const filter = new EventFilter({ type: ["ChatMessage", "UserBanned"] });
+
+    expect(filter.matches("ChatMessage", createChatMessage("a", "hola"))).toBe(
+      true,
+    );
+    expect(filter.matches("StreamHost", {})).toBe(false);
+  });
+
+  it("debería filtrar por remitente sin distinguir mayúsculas", () => {
+    const message = createChatMessage("Usuario", "hola");
+
+    expect(
+      matches({ sender: { in: ["usuario"] } }, "ChatMessage", message),
+    ).toBe(true);
+    expect(
+      matches({ sender: { notIn: ["USUARIO"] } }, "ChatMessage", message),
+    ).toBe(false);
+  });
+
+  it("debería comprobar badges como strings u objetos", () => {
+    expect(
+      matches(
+        { badge: "moderator" },
+        "ChatMessage",
+        createChatMessage("a", "hola", ["moderator"]),
+      ),
+    ).toBe(true);
+    expect(
+      matches(
+        { subscriber: true },
+        "ChatMessage",
+        createChatMessage("a", "hola", [{ type: "subscriber", text: "Sub" }]),
+      ),
+    ).toBe(true);
+    expect(
+      matches({ subscriber: true }, "ChatMessage", createChatMessage("a", "x")),
+    ).toBe(false);
+  });
+
+  it("debería aplicar regex y longitud al contenido", () => {
+    const message = createChatMessage("a", "Hola mundo");
+
+    expect(
+      matches({ regex: "^hola", flags: "i" }, "ChatMessage", message),
+    ).toBe(true);
+    expect(matches({ length: { max: 5 } }, "ChatMessage", message)).toBe(false);
+    expect(
+      matches({ length: { min: 5, max: 20 } }, "ChatMessage", message),
+    ).toBe(true);
+  });
+
+  it("debería dar el mismo resultado con los flags g e y", () => {
+    const message = createChatMessage("a", "hi");
+
+    ["g", "y"].forEach((flags) => {
+      const filter = new EventFilter({ regex: "hi", flags });
+      const results = [1, 2, 3, 4].map(() =>
+        filter.matches("ChatMessage", message),
+      );
+      expect(results).toEqual([true, true, true, true]);
+    });
+  });
+
+  it("debería combinar reglas con and, or y not", () => {
+    const spec: EventFilterSpec = {
+      and: [
+        { not: { sender: { in: ["bot"] } } },
+        { or: [{ badge: "vip" }, { length: { min: 10 } }] },
+      ],
+    };
+
+    expect(
+      matches(spec, "ChatMessage", createChatMessage("bot", "x", ["vip"])),
+    ).toBe(false);
+    expect(
+      matches(spec, "ChatMessage", createChatMessage("a", "x", ["vip"])),
+    ).toBe(true);
+    expect(matches(spec, "ChatMessage", createChatMessage("a", "corto"))).toBe(
+      false,
+    );
+  });
+
+  it("no debería aplicar reglas de mensaje a eventos sin mensaje", () => {
+    const spec: EventFilterSpec = { not: { regex: "spam" } };
+    const ban = { username: "a", type: "user_banned" };
+
+    expect(matches(spec, "UserBanned", ban)).toBe(true);
+    expect(
+      matches(
+        { and: [{ type: "UserBanned" }, { subscriber: true }] },
+        "UserBanned",
+        ban,
+      ),
+    ).toBe(true);
+  });
+
+  it("debería aplicar las reglas al mensaje fijado", () => {
+    const pinned = {
+      message: createChatMessage("a", "spam"),
+      type: "pinned_message_created" as const,
+    };
+
+    expect(
+      matches({ not: { regex: "spam" } }, "PinnedMessageCreated", pinned),
+    ).toBe(false);
+  });
+
+  it("debería serializarse a JSON", () => {
+    const spec: EventFilterSpec = { or: [{ badge: "vip" }, { regex: "!" }] };
+
+    expect(JSON.parse(JSON.stringify(new EventFilter(spec)))).toEqual(spec);
+  });
+
+  it("debería rechazar especificaciones no válidas", () => {
+    expect(() => new EventFilter({ regex: "(" })).toThrow(InvalidFilterError);
+    expect(() => new EventFilter({ foo: 1 } as any)).toThrow(
+      InvalidFilterError,
+    );
+    expect(() => new EventFilter({ and: {} } as any)).toThrow(
+      InvalidFilterError,
+    );
+    expect(
+      () => new EventFilter({ badge: "vip", subscriber: true } as any),
+    ).toThrow(InvalidFilterError);
+  });
+});
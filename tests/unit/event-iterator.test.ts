@@ -0,0 +1,216 @@
+// Pruebas de los iteradores asíncronos de eventos
+import { describe, it, expect } from "bun:test";
+import {
+  KickWebSocket,
+  EventIterator,
+  EventQueueOverflowError,
+} from "../../src/index.js";
+
+const createChatMessage = (id: string) => ({
+  id,
+  content: `mensaje ${id}`,
+  type: "message" as const,
+  created_at: "2024-01-01T00:00:00Z",
+  sender: {
+    id: 1,
+    username: "usuario",
+    slug: "usuario",
+    identity: { color: "#ffffff", badges: [] },
+  },
+  chatroom: { id: 1 },
+});
+
+describe("EventIterator", () => {
+  it("debería entregar los eventos en orden", async () => {
+    let push: (value: number) => void = () => {};
+    const iterator = new EventIterator<number>((p) => {
+      push = p;
+      return () => {};
+    });
+
+    push(1);
+    push(2);
+
+    expect(await iterator.next()).toEqual({ value: 1, done: false });
+    expect(await iterator.next()).toEqual({ value: 2, done: false });
+  });
+
+  it("debería resolver un next() pendiente cuando llega un evento", async () => {
+    let push: (value: number) => void = () => {};
+    const iterator = new EventIterator<number>((p) => {
+      push = p;
+      return () => {};
+    });
+
+    const pending = iterator.next();
+    push(7);
+
+    expect(await pending).toEqual({ value: 7, done: false });
+  });
+
+  it("debería descartar el evento más antiguo por defecto", async () => {
+    let push: (value: number) => void = () => {};
+    const iterator = new EventIterator<number>(
+      (p) => {
+        push = p;
+        return () => {};
+      },
+      { bufferSize: 2 },
+    );
+
+    push(1);
+    push(2);
+    push(3);
+    iterator.close();
+
+    const values: number[] = [];
+    for await (const value of iterator) values.push(value);
+    expect(values).toEqual([2, 3]);
+  });
+
+  it("debería descartar el evento más reciente con drop-newest", async () => {
+    let push: (value: number) => void = () => {};
+    const iterator = new EventIterator<number>(
+      (p) => {
+        push = p;
+        return () => {};
+      },
+      { bufferSize: 2, overflow: "drop-newest" },
+    );
+
+    push(1);
+    push(2);
+    push(3);
+    iterator.close();
+
+    const values: number[] = [];
+    for await (const value of iterator) values.push(value);
+    expect(values).toEqual([1, 2]);
+  });
+
+  it("debería fallar tras entregar la cola con la política error", async () => {
+    let push: (value: number) => void = () => {};
+    let unsubscribed = false;
+    const iterator = new EventIterator<number>(
+      (p) => {
+        push = p;
+        return () => {
+          unsubscribed = true;
+        };
+      },
+      { bufferSize: 1, overflow: "error" },
+    );
+
+    push(1);
+    push(2);
+
+    expect(unsubscribed).toBe(true);
+    expect(await iterator.next()).toEqual({ value: 1, done: false });
+    await expect(iterator.next()).rejects.toBeInstanceOf(
+      EventQueueOverflowError,
+    );
+  });
+
+  it("debería limpiar los listeners al salir del bucle", async () => {
+    let push: (value: number) => void = () => {};
+    let unsubscribed = false;
+    const iterator = new EventIterator<number>((p) => {
+      push = p;
+      return () => {
+        unsubscribed = true;
+      };
+    });
+
+    push(1);
+    push(2);
+    for await (const value of iterator) {
+      expect(value).toBe(1);
+      break;
+    }
+
+    expect(unsubscribed).toBe(true);
+    expect(iterator.closed).toBe(true);
+    expect(await iterator.next()).toEqual({ value: undefined, done: true });
+  });
+
+  it("debería terminar al abortarse la señal", async () => {
+    const controller = new AbortController();
+    const iterator = new EventIterator<number>(() => () => {}, {
+      signal: controller.signal,
+    });
+
+    const pending = iterator.next();
+    controller.abort();
+
+    expect(await pending).toEqual({ value: undefined, done: true });
+  });
+
+  it("no debería suscribirse con una señal ya abortada", () => {
+    const controller = new AbortController();
+    controller.abort();
+    let subscribed = false;
+
+    const iterator = new EventIterator<number>(
+      () => {
+        subscribed = true;
+        return () => {};
+      },
+      { signal: controller.signal },
+    );
+
+    expect(subscribed).toBe(false);
+    expect(iterator.closed).toBe(true);
+  });
+});
+
+describe("KickWebSocket iteradores", () => {
+  it("debería iterar un tipo de evento con events()", async () => {
+    const kickWS = new KickWebSocket();
+    const iterator = kickWS.events("ChatMessage");
+
+    kickWS.emit("ChatMessage", createChatMessage("a"));
+    const result = await iterator.next();
+
+    expect(result.value?.id).toBe("a");
+    await iterator.return();
+    expect(kickWS.listenerCount("ChatMessage")).toBe(0);
+  });
+
+  it("debería combinar varios eventos con stream()", async () => {
+    const kickWS = new KickWebSocket();
+    const iterator = kickWS.stream(["UserBanned", "MessageDeleted"]);
+    const context = { channel: "canal", chatroomId: 1 };
+
+    kickWS.emit(
+      "UserBanned",
+      { username: "spammer", type: "user_banned" },
+      context,
+    );
+    kickWS.emit("MessageDeleted", {
+      message_id: "m1",
+      chatroom_id: 1,
+      type: "message_deleted",
+    });
+
+    const first = await iterator.next();
+    const second = await iterator.next();
+
+    expect(first.value).toEqual({
+      type: "UserBanned",
+      data: { username: "spammer", type: "user_banned" },
+      context,
+    });
+    expect(second.value?.type).toBe("MessageDeleted");
+  });
+
+  it("debería terminar los iteradores con disconnect()", async () => {
+    const kickWS = new KickWebSocket();
+    const iterator = kickWS.events("ChatMessage");
+    const pending = iterator.next();
+
+    kickWS.disconnect();
+
+    expect(await pending).toEqual({ value: undefined, done: true });
+    expect(kickWS.listenerCount("ChatMessage")).toBe(0);
+  });
+});
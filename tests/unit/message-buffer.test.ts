@@ -0,0 +1,236 @@
+// Pruebas del buffer circular, del buffer de mensajes raw y de query()
+import { describe, it, expect } from "bun:test";
+import { KickWebSocket, MessageParser, RingBuffer } from "../../src/index.js";
+import { chatFrame, receiveFrame } from "../helpers.js";
+
+describe("RingBuffer", () => {
+  it("debería descartar el elemento más antiguo al llenarse", () => {
+    const buffer = new RingBuffer<number>(3);
+
+    expect(buffer.push(1)).toBeUndefined();
+    buffer.push(2);
+    buffer.push(3);
+    expect(buffer.push(4)).toBe(1);
+
+    expect(buffer.toArray()).toEqual([2, 3, 4]);
+    expect(buffer.first()).toBe(2);
+    expect(buffer.last()).toBe(4);
+    expect(buffer.size).toBe(3);
+  });
+
+  it("debería redimensionarse conservando los más recientes", () => {
+    const buffer = new RingBuffer<number>(4);
+    [1, 2, 3, 4, 5].forEach((n) => buffer.push(n));
+
+    expect(buffer.resize(2)).toEqual([2, 3]);
+    expect(buffer.toArray()).toEqual([4, 5]);
+
+    expect(buffer.resize(3)).toEqual([]);
+    buffer.push(6);
+    expect(buffer.toArray()).toEqual([4, 5, 6]);
+    expect(buffer.capacity).toBe(3);
+  });
+
+  it("debería eliminar elementos por predicado", () => {
+    const buffer = new RingBuffer<number>(3);
+    [1, 2, 3, 4].forEach((n) => buffer.push(n));
+
+    expect(buffer.removeWhere((n) => n % 2 === 0)).toEqual([2, 4]);
+    expect(buffer.toArray()).toEqual([3]);
+    buffer.push(5);
+    expect(buffer.toArray()).toEqual([3, 5]);
+  });
+
+  it("no debería guardar nada con capacidad cero", () => {
+    const buffer = new RingBuffer<number>(0);
+
+    expect(buffer.push(1)).toBe(1);
+    expect(buffer.size).toBe(0);
+  });
+});
+
+describe("Buffer de mensajes raw", () => {
+  const frame = (event: string, id: string) =>
+    JSON.stringify({
+      event,
+      channel: "chatrooms.1.v2",
+      data: JSON.stringify({ id, username: id }),
+    });
+
+  const createKickWS = (bufferSize: number) => {
+    const kickWS = new KickWebSocket({ enableBuffer: true, bufferSize });
+    const receive = (raw: string) => receiveFrame(kickWS, raw);
+    return { kickWS, receive };
+  };
+
+  it("debería guardar entradas con fecha, evento, tipo y canal", () => {
+    const { kickWS, receive } = createKickWS(10);
+    const before = Date.now();
+
+    receive(frame("App\\Events\\UserBannedEvent", "a"));
+    receive("no es json");
+
+    const [entry, invalid] = kickWS.exportBufferedMessages();
+    expect(entry).toMatchObject({
+      eventName: "App\\Events\\UserBannedEvent",
+      type: "UserBanned",
+      channel: "chatrooms.1.v2",
+    });
+    expect(entry.receivedAt.getTime()).toBeGreaterThanOrEqual(before);
+    expect(invalid).toMatchObject({ eventName: null, type: null });
+
+    const stats = kickWS.getRawMessageStats();
+    expect(stats.oldestTimestamp).toEqual(entry.receivedAt);
+    expect(stats.newestTimestamp).toEqual(invalid.receivedAt);
+  });
+
+  it("debería mantener los conteos por tipo al descartar mensajes", () => {
+    const { kickWS, receive } = createKickWS(2);
+
+    receive(frame("App\\Events\\UserBannedEvent", "a"));
+    receive(frame("App\\Events\\UserBannedEvent", "b"));
+    receive(frame("App\\Events\\MessageDeletedEvent", "c"));
+
+    expect(kickWS.getRawMessageStats()).toMatchObject({
+      total: 2,
+      byType: { UserBanned: 1, MessageDeleted: 1 },
+    });
+
+    kickWS.clearRawMessagesByEventType("UserBanned");
+    expect(kickWS.getRawMessageStats().byType).toEqual({ MessageDeleted: 1 });
+  });
+
+  it("debería redimensionarse con updateOptions", () => {
+    const { kickWS, receive } = createKickWS(3);
+    ["a", "b", "c"].forEach((id) =>
+      receive(frame("App\\Events\\UserBannedEvent", id)),
+    );
+
+    kickWS.updateOptions({ bufferSize: 1 });
+    expect(kickWS.getRawMessageStats()).toMatchObject({
+      total: 1,
+      byType: { UserBanned: 1 },
+    });
+    expect(kickWS.exportRawMessages()).toEqual([
+      frame("App\\Events\\UserBannedEvent", "c"),
+    ]);
+
+    kickWS.updateOptions({ bufferSize: 5 });
+    ["d", "e"].forEach((id) =>
+      receive(frame("App\\Events\\UserBannedEvent", id)),
+    );
+    expect(kickWS.getStats().messageBufferSize).toBe(3);
+  });
+});
+
+describe("query()", () => {
+  const messageFrame = (senderId: number, username: string, content: string) =>
+    chatFrame(content, { channel: "chatrooms.1.v2", senderId, username });
+
+  const banFrame = (username: string) =>
+    JSON.stringify({
+      event: "App\\Events\\UserBannedEvent",
+      channel: "chatrooms.1.v2",
+      data: JSON.stringify({ username }),
+    });
+
+  const createKickWS = () => {
+    const kickWS = new KickWebSocket({ enableBuffer: true, bufferSize: 10 });
+    const receive = (raw: string) => receiveFrame(kickWS, raw);
+    return { kickWS, receive };
+  };
+
+  const contents = (results: any[]) =>
+    results.map((result) => result.data.content);
+
+  it("debería devolver eventos parseados con su frame raw", () => {
+    const { kickWS, receive } = createKickWS();
+    receive(messageFrame(1, "Ana", "hola"));
+    receive(banFrame("spammer"));
+
+    const [chat, ban] = kickWS.query();
+
+    expect(chat).toMatchObject({
+      type: "ChatMessage",
+      raw: messageFrame(1, "Ana", "hola"),
+      channel: "chatrooms.1.v2",
+    });
+    expect(chat.receivedAt).toBeInstanceOf(Date);
+    expect(ban.data).toEqual({ username: "spammer", type: "user_banned" });
+  });
+
+  it("debería filtrar por remitente, tipo y contenido", () => {
+    const { kickWS, receive } = createKickWS();
+    receive(messageFrame(1, "Ana", "hola a todos"));
+    receive(messageFrame(2, "Luis", "Hola Ana"));
+    receive(banFrame("ana"));
+    receive(messageFrame(1, "Ana", "adiós"));
+
+    expect(contents(kickWS.query({ sender: 1 }))).toEqual([
+      "hola a todos",
+      "adiós",
+    ]);
+    expect(contents(kickWS.query({ sender: "ANA" }))).toEqual([
+      "hola a todos",
+      "adiós",
+    ]);
+    expect(kickWS.query({ sender: 99 })).toEqual([]);
+    expect(kickWS.query({ types: "UserBanned" }).length).toBe(1);
+    expect(contents(kickWS.query({ contains: "hola" }))).toEqual([
+      "hola a todos",
+      "Hola Ana",
+    ]);
+    expect(contents(kickWS.query({ regex: /^hola/ }))).toEqual([
+      "hola a todos",
+    ]);
+  });
+
+  it("debería aplicar rango de fechas, orden y límite", () => {
+    const { kickWS, receive } = createKickWS();
+    ["a", "b", "c"].forEach((content) =>
+      receive(messageFrame(1, "Ana", content)),
+    );
+    const future = Date.now() + 60000;
+
+    expect(contents(kickWS.query({ order: "desc", limit: 2 }))).toEqual([
+      "c",
+      "b",
+    ]);
+    expect(kickWS.query({ since: future })).toEqual([]);
+    expect(kickWS.query({ until: new Date(future) }).length).toBe(3);
+  });
+
+  it("debería mantener los índices al descartar mensajes", () => {
+    const kickWS = new KickWebSocket({ enableBuffer: true, bufferSize: 2 });
+    const receive = (raw: string) => receiveFrame(kickWS, raw);
+
+    receive(messageFrame(1, "Ana", "uno"));
+    expect(kickWS.query({ sender: 1 }).length).toBe(1);
+    receive(messageFrame(2, "Luis", "dos"));
+    receive(messageFrame(2, "Luis", "tres"));
+
+    expect(kickWS.query({ sender: 1 })).toEqual([]);
+    expect(contents(kickWS.query({ sender: "luis" }))).toEqual(["dos", "tres"]);
+  });
+
+  it("no debería volver a parsear los frames en consultas repetidas", () => {
+    const { kickWS, receive } = createKickWS();
+    receive(messageFrame(1, "Ana", "hola"));
+    const parseFrame = MessageParser.parseFrame;
+    let calls = 0;
+    MessageParser.parseFrame = (frame) => {
+      calls++;
+      return parseFrame.call(MessageParser, frame);
+    };
+
+    try {
+      kickWS.query({ sender: 1 });
+      kickWS.query({ sender: 1, contains: "hola" });
+      kickWS.query();
+    } finally {
+      MessageParser.parseFrame = parseFrame;
+    }
+
+    expect(calls).toBe(1);
+  });
+});
@@ -33,6 +33,7 @@ describe("Performance Tests", () => {
       const listeners = 100;
       const events = 1000;
       let totalCount = 0;
+      emitter.setMaxListeners(0); // Many listeners on purpose: no leak warning
 
       const startTime = performance.now();
 
@@ -264,6 +265,7 @@ describe("Performance Tests", () => {
 
     it("should handle event registration efficiently", () => {
       const kickWS = new KickWebSocket();
+      kickWS.setMaxListeners(0); // Many listeners on purpose: no leak warning
       const startTime = performance.now();
 
       // Register many event handlers
@@ -291,6 +293,7 @@ describe("Performance Tests", () => {
 
     it("should handle convenience methods efficiently", () => {
       const kickWS = new KickWebSocket();
+      kickWS.setMaxListeners(0); // Many listeners on purpose: no leak warning
       const startTime = performance.now();
 
       // Test all convenience methods
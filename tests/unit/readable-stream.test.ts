@@ -0,0 +1,112 @@
+// Pruebas del adaptador ReadableStream y de los codificadores NDJSON
+import { describe, it, expect } from "bun:test";
+import {
+  KickWebSocket,
+  createNdjsonEncoder,
+  createRawNdjsonEncoder,
+} from "../../src/index.js";
+
+const banned = (username: string) => ({
+  username,
+  type: "user_banned" as const,
+});
+
+describe("toReadableStream", () => {
+  it("debería entregar los eventos y cerrarse con disconnect()", async () => {
+    const kickWS = new KickWebSocket();
+    const stream = kickWS.toReadableStream(["UserBanned"]);
+    const reader = stream.getReader();
+
+    kickWS.emit("UserBanned", banned("a"));
+    const first = await reader.read();
+    kickWS.disconnect();
+    const second = await reader.read();
+
+    expect(first.value).toEqual({
+      type: "UserBanned",
+      data: banned("a"),
+      context: undefined,
+    });
+    expect(second.done).toBe(true);
+  });
+
+  it("debería aplicar la política de desbordamiento sin consumidor", async () => {
+    const kickWS = new KickWebSocket();
+    const stream = kickWS.toReadableStream(["UserBanned"], {
+      bufferSize: 2,
+      overflow: "drop-oldest",
+    });
+    const reader = stream.getReader();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    ["a", "b", "c", "d"].forEach((name) =>
+      kickWS.emit("UserBanned", banned(name)),
+    );
+    kickWS.disconnect();
+
+    const names: string[] = [];
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      names.push(value.data.username);
+    }
+
+    // highWaterMark 1: un evento ya extraído más los dos de la cola
+    expect(names).toEqual(["a", "c", "d"]);
+  });
+
+  it("debería eliminar los listeners al cancelar el stream", async () => {
+    const kickWS = new KickWebSocket();
+    const stream = kickWS.toReadableStream(["UserBanned", "MessageDeleted"]);
+
+    expect(kickWS.listenerCount("UserBanned")).toBe(1);
+    await stream.cancel();
+
+    expect(kickWS.listenerCount("UserBanned")).toBe(0);
+    expect(kickWS.listenerCount("MessageDeleted")).toBe(0);
+  });
+});
+
+describe("Codificadores NDJSON", () => {
+  const collect = async (stream: ReadableStream<string>) => {
+    let output = "";
+    const reader = stream.getReader();
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return output;
+      output += value;
+    }
+  };
+
+  it("debería serializar eventos parseados como NDJSON", async () => {
+    const kickWS = new KickWebSocket();
+    const context = { channel: "canal", chatroomId: 1 };
+    const ndjson = kickWS
+      .toReadableStream(["UserBanned", "error"])
+      .pipeThrough(createNdjsonEncoder());
+
+    kickWS.emit("UserBanned", banned("a"), context);
+    kickWS.emit("error", new Error("fallo"));
+    setTimeout(() => kickWS.disconnect(), 10);
+
+    const lines = (await collect(ndjson)).trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      { type: "UserBanned", data: banned("a"), context },
+      { type: "error", data: { name: "Error", message: "fallo" } },
+    ]);
+  });
+
+  it("debería escribir frames raw uno por línea", async () => {
+    const frames = ['{"event":"a","data":"{}"}', '{\n"event":"b"}'];
+    const source = new ReadableStream<string>({
+      start(controller) {
+        frames.forEach((frame) => controller.enqueue(frame));
+        controller.close();
+      },
+    });
+
+    const output = await collect(source.pipeThrough(createRawNdjsonEncoder()));
+
+    expect(output).toBe('{"event":"a","data":"{}"}\n{"event":"b"}\n');
+  });
+});
@@ -0,0 +1,38 @@
+// Comprobación de tipos de la API pública con strict: true
+import { describe, it, expect } from "bun:test";
+import path from "path";
+import ts from "typescript";
+
+/**
+ * Compila un archivo de tests/types y devuelve sus errores de tipos
+ */
+function typeCheck(file: string): string[] {
+  const fileName = path.join(import.meta.dir, "..", "types", file);
+  const program = ts.createProgram([fileName], {
+    strict: true,
+    noEmit: true,
+    skipLibCheck: true,
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Node10,
+    lib: ["lib.es2020.d.ts", "lib.dom.d.ts", "lib.dom.iterable.d.ts"],
+    types: [],
+  });
+
+  // Solo interesan los errores del archivo de prueba, no los de src
+  return ts
+    .getPreEmitDiagnostics(program, program.getSourceFile(fileName))
+    .map((diagnostic) =>
+      ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+    );
+}
+
+describe("Tipos públicos", () => {
+  it("debería aceptar fábricas que devuelven un WebSocket sin casts", () => {
+    expect(typeCheck("websocket-factory.ts")).toEqual([]);
+  }, 30000);
+
+  it("debería acotar los datos del middleware según el tipo de evento", () => {
+    expect(typeCheck("middleware.ts")).toEqual([]);
+  }, 30000);
+});